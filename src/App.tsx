@@ -5,12 +5,14 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 
 import { AuthProvider } from "./contexts/AuthContext";
-import { AdminModeProvider } from "./contexts/AdminModeContext";
 import { DailyMessageVisibilityProvider } from "./contexts/DailyMessageVisibilityContext";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import EmployeeProfile from "./pages/EmployeeProfile";
 import Options from "./pages/Options";
+import Display from "./pages/Display";
+import Reports from "./pages/Reports";
+import Planner from "./pages/Planner";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -18,24 +20,25 @@ const queryClient = new QueryClient();
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
-        <AdminModeProvider>
-          <DailyMessageVisibilityProvider>
-            <TooltipProvider>
-              <Toaster />
-              <Sonner />
-              <BrowserRouter>
-                <Routes>
-                  <Route path="/" element={<Index />} />
-                  <Route path="/auth" element={<Auth />} />
-                  <Route path="/employee/:id" element={<EmployeeProfile />} />
-                  <Route path="/options" element={<Options />} />
-                  {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-                  <Route path="*" element={<NotFound />} />
-                </Routes>
-              </BrowserRouter>
-            </TooltipProvider>
-          </DailyMessageVisibilityProvider>
-        </AdminModeProvider>
+      <DailyMessageVisibilityProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Sonner />
+          <BrowserRouter>
+            <Routes>
+              <Route path="/" element={<Index />} />
+              <Route path="/auth" element={<Auth />} />
+              <Route path="/employee/:id" element={<EmployeeProfile />} />
+              <Route path="/options" element={<Options />} />
+              <Route path="/display" element={<Display />} />
+              <Route path="/reports" element={<Reports />} />
+              <Route path="/planner" element={<Planner />} />
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </TooltipProvider>
+      </DailyMessageVisibilityProvider>
     </AuthProvider>
   </QueryClientProvider>
 );
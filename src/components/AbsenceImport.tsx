@@ -0,0 +1,343 @@
+import { useState, ChangeEvent } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Loader2, Upload } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePredefinedStatuses } from '@/hooks/use-predefined-statuses';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { StatusBadge } from '@/components/StatusBadge';
+import { IcsEvent, parseIcs } from '@/lib/ics';
+import { getTodayInTimeZone } from '@/lib/dates';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+const CUSTOM_STATUS = '__custom__';
+
+interface Employee {
+  id: string;
+  name: string;
+  email: string | null;
+}
+
+interface ImportRow {
+  uid: string;
+  summary: string;
+  startDate: string;
+  endDate: string;
+  employee: Employee | null;
+  problem: string | null;
+}
+
+interface AbsenceImportProps {
+  tenantId: string;
+  // When set, every event in the file belongs to this person
+  employeeId?: string;
+  onImported?: () => void;
+}
+
+// Matches by attendee or organizer email first, then by a name in the event title.
+// The longest matching name wins, so "Anna" is not mistaken for "Ann".
+const matchEmployee = (event: IcsEvent, employees: Employee[]) => {
+  const byEmail = employees.find((e) => e.email && event.emails.includes(e.email.trim().toLowerCase()));
+  if (byEmail) return byEmail;
+
+  const summary = event.summary.toLowerCase();
+  return (
+    employees
+      .filter((e) => e.name.trim() && summary.includes(e.name.trim().toLowerCase()))
+      .sort((a, b) => b.name.length - a.name.length)[0] || null
+  );
+};
+
+export const AbsenceImport = ({ tenantId, employeeId, onImported }: AbsenceImportProps) => {
+  const { timeZone } = useAuth();
+  const { statusTexts, getStatusMeta } = usePredefinedStatuses();
+  const [importRows, setImportRows] = useState<ImportRow[] | null>(null);
+  const [statusText, setStatusText] = useState('');
+  const [showCustomStatus, setShowCustomStatus] = useState(false);
+  const [skipWeekends, setSkipWeekends] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const inputId = employeeId ? `absence-import-${employeeId}` : 'absence-import';
+  const validRows = (importRows || []).filter((row) => !row.problem);
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsReading(true);
+    try {
+      const result = parseIcs(await file.text(), timeZone);
+
+      if ('error' in result) {
+        toast.error(result.error);
+        return;
+      }
+
+      if (result.events.length === 0) {
+        toast.error('The file has no events in it');
+        return;
+      }
+
+      let employeesQuery = supabase
+        .from('employees')
+        .select('id, name, email')
+        .eq('tenant_id', tenantId);
+      if (employeeId) employeesQuery = employeesQuery.eq('id', employeeId);
+
+      let scheduledQuery = supabase
+        .from('scheduled_statuses')
+        .select('employee_id, scheduled_date')
+        .eq('tenant_id', tenantId);
+      if (employeeId) scheduledQuery = scheduledQuery.eq('employee_id', employeeId);
+
+      const [employeesResult, scheduledResult] = await Promise.all([employeesQuery, scheduledQuery]);
+
+      if (employeesResult.error) throw employeesResult.error;
+      if (scheduledResult.error) throw scheduledResult.error;
+
+      const employees = employeesResult.data || [];
+      const today = getTodayInTimeZone(timeZone);
+      // A person can only have one scheduled status starting on the same day
+      const taken = new Set((scheduledResult.data || []).map((s) => `${s.employee_id}:${s.scheduled_date}`));
+
+      const rows = result.events
+        .sort((a, b) => a.startDate.localeCompare(b.startDate))
+        .map((event): ImportRow => {
+          const employee = employeeId ? employees[0] || null : matchEmployee(event, employees);
+          const key = employee ? `${employee.id}:${event.startDate}` : '';
+
+          let problem: string | null = null;
+          if (event.cancelled) problem = 'Cancelled';
+          else if (event.recurring) problem = 'Repeating events are not supported';
+          else if (event.endDate < today) problem = 'Already over';
+          else if (!employee) problem = 'No matching person';
+          else if (taken.has(key)) problem = 'Already scheduled';
+
+          if (!problem) taken.add(key);
+
+          return {
+            uid: event.uid,
+            summary: event.summary,
+            startDate: event.startDate,
+            endDate: event.endDate,
+            employee,
+            problem,
+          };
+        });
+
+      setImportRows(rows);
+    } catch (error) {
+      console.error('Error reading ICS file:', error);
+      toast.error('Failed to read the file');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  // Absences that cover today should show on the board now rather than from tomorrow
+  const reapplyTodaysStatuses = async (employeeIds: string[]) => {
+    if (employeeIds.length === 0) return;
+
+    try {
+      const { error: resetError } = await supabase
+        .from('employees')
+        .update({
+          already_applied: false,
+          applied_date: null
+        })
+        .in('id', employeeIds);
+
+      if (resetError) throw resetError;
+
+      const { error } = await supabase.rpc('apply_daily_statuses');
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error applying statuses:', error);
+    }
+  };
+
+  const handleImport = async () => {
+    if (validRows.length === 0 || !statusText.trim()) return;
+
+    setIsImporting(true);
+    try {
+      const { error } = await supabase
+        .from('scheduled_statuses')
+        .insert(validRows.map((row) => ({
+          tenant_id: tenantId,
+          employee_id: row.employee!.id,
+          scheduled_date: row.startDate,
+          end_date: row.endDate,
+          skip_weekends: skipWeekends,
+          status_text: statusText.trim(),
+        })));
+
+      if (error) throw error;
+
+      const today = getTodayInTimeZone(timeZone);
+      await reapplyTodaysStatuses([
+        ...new Set(
+          validRows
+            .filter((row) => row.startDate <= today && row.endDate >= today)
+            .map((row) => row.employee!.id)
+        ),
+      ]);
+
+      toast.success(`Imported ${validRows.length} scheduled ${validRows.length === 1 ? 'status' : 'statuses'}`);
+      setImportRows(null);
+      onImported?.();
+    } catch (error) {
+      console.error('Error importing scheduled statuses:', error);
+      toast.error('Failed to import scheduled statuses');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const formatRange = (row: ImportRow) =>
+    row.startDate === row.endDate
+      ? format(parseISO(row.startDate), 'MMM dd, yyyy')
+      : `${format(parseISO(row.startDate), 'MMM dd')} - ${format(parseISO(row.endDate), 'MMM dd, yyyy')}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import Absences</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          {employeeId
+            ? 'Turn the events in a calendar (.ics) file into scheduled statuses.'
+            : 'Turn the events in a calendar (.ics) file into scheduled statuses. Events are matched to people by attendee email, or by a name in the event title.'}
+          {' '}Events that are already over, or start on a day that already has a scheduled status, are skipped.
+        </p>
+        <input
+          type="file"
+          id={inputId}
+          accept=".ics,text/calendar"
+          onChange={handleFile}
+          className="hidden"
+        />
+        <Label htmlFor={inputId}>
+          <Button variant="outline" onClick={() => document.getElementById(inputId)?.click()} disabled={isReading}>
+            {isReading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+            Choose ICS File
+          </Button>
+        </Label>
+
+        {importRows && (
+          <div className="space-y-3">
+            <div className="max-h-80 overflow-auto rounded-lg border border-border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Dates</TableHead>
+                    <TableHead>Event</TableHead>
+                    {!employeeId && <TableHead>Person</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {importRows.map((row, i) => (
+                    <TableRow key={`${row.uid}-${i}`} className={cn(row.problem && 'bg-destructive/10')}>
+                      <TableCell className="whitespace-nowrap">{formatRange(row)}</TableCell>
+                      <TableCell>
+                        {row.summary || <span className="text-muted-foreground">Untitled</span>}
+                        {row.problem && <p className="text-xs text-destructive">{row.problem}</p>}
+                      </TableCell>
+                      {!employeeId && <TableCell>{row.employee?.name}</TableCell>}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {validRows.length < importRows.length && (
+              <p className="text-sm text-destructive">
+                {importRows.length - validRows.length} of {importRows.length} events will be skipped.
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <Label>Status for the imported dates</Label>
+              {showCustomStatus ? (
+                <Input
+                  placeholder="Enter custom status"
+                  value={statusText}
+                  onChange={(e) => setStatusText(e.target.value)}
+                />
+              ) : (
+                <Select
+                  value={statusTexts.includes(statusText) ? statusText : undefined}
+                  onValueChange={(value) => {
+                    if (value === CUSTOM_STATUS) {
+                      setShowCustomStatus(true);
+                      setStatusText('');
+                    } else {
+                      setStatusText(value);
+                    }
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {statusTexts.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        <StatusBadge status={status} meta={getStatusMeta(status)} />
+                      </SelectItem>
+                    ))}
+                    <SelectItem value={CUSTOM_STATUS}>Custom...</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id={`${inputId}-skip-weekends`}
+                checked={skipWeekends}
+                onCheckedChange={(checked) => setSkipWeekends(checked === true)}
+              />
+              <Label htmlFor={`${inputId}-skip-weekends`} className="text-sm font-normal">
+                Skip weekends
+              </Label>
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={handleImport} disabled={validRows.length === 0 || !statusText.trim() || isImporting}>
+                {isImporting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Importing...
+                  </>
+                ) : (
+                  `Import ${validRows.length} ${validRows.length === 1 ? 'Event' : 'Events'}`
+                )}
+              </Button>
+              <Button
+                variant="ghost"
+                onClick={() => {
+                  setImportRows(null);
+                  setShowCustomStatus(false);
+                }}
+                disabled={isImporting}
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -11,10 +11,15 @@ import {
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
+import { useDepartments } from '@/hooks/use-departments';
+import { validateEmployeeField } from '@/lib/employee-validation';
 import { toast } from 'sonner';
 import { Plus, Loader2 } from 'lucide-react';
 
+const NO_DEPARTMENT = '__none__';
+
 interface AddEmployeeDialogProps {
   tenantId: string;
   onEmployeeAdded: () => void;
@@ -23,13 +28,16 @@ interface AddEmployeeDialogProps {
 const AddEmployeeDialog = ({ tenantId, onEmployeeAdded }: AddEmployeeDialogProps) => {
   const [open, setOpen] = useState(false);
   const [name, setName] = useState('');
+  const [departmentId, setDepartmentId] = useState(NO_DEPARTMENT);
+  const { departments } = useDepartments();
   const [isLoading, setIsLoading] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!name.trim()) {
-      toast.error('Please enter a name');
+    const validationError = validateEmployeeField('name', name);
+    if (validationError) {
+      toast.error(validationError);
       return;
     }
 
@@ -41,12 +49,14 @@ const AddEmployeeDialog = ({ tenantId, onEmployeeAdded }: AddEmployeeDialogProps
           tenant_id: tenantId,
           name: name.trim(),
           status: 'Available',
+          department_id: departmentId === NO_DEPARTMENT ? null : departmentId,
         });
 
       if (error) throw error;
 
       toast.success('Employee added successfully');
       setName('');
+      setDepartmentId(NO_DEPARTMENT);
       setOpen(false);
       onEmployeeAdded();
     } catch (error) {
@@ -84,6 +94,24 @@ const AddEmployeeDialog = ({ tenantId, onEmployeeAdded }: AddEmployeeDialogProps
                 disabled={isLoading}
               />
             </div>
+            {departments.length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="department">Department</Label>
+                <Select value={departmentId} onValueChange={setDepartmentId} disabled={isLoading}>
+                  <SelectTrigger id="department">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_DEPARTMENT}>No department</SelectItem>
+                    {departments.map((department) => (
+                      <SelectItem key={department.id} value={department.id}>
+                        {department.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
           </div>
           <DialogFooter>
             <Button type="submit" disabled={isLoading}>
@@ -0,0 +1,115 @@
+import { Filter, Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { StatusBadge } from '@/components/StatusBadge';
+import { BoardFilters, EMPTY_BOARD_FILTERS, NO_DEPARTMENT, PresenceFilter, hasActiveFilters } from '@/lib/board-filters';
+import { Department } from '@/lib/departments';
+import { PredefinedStatus, STATUS_CATEGORIES } from '@/lib/statuses';
+
+interface BoardFilterBarProps {
+  filters: BoardFilters;
+  onChange: (filters: BoardFilters) => void;
+  statuses: PredefinedStatus[];
+  departments: Department[];
+}
+
+const toggleValue = (values: string[], value: string, checked: boolean) =>
+  checked ? [...values, value] : values.filter((v) => v !== value);
+
+export const BoardFilterBar = ({ filters, onChange, statuses, departments }: BoardFilterBarProps) => {
+  const departmentOptions = [...departments, { id: NO_DEPARTMENT, name: 'No department' }];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="relative flex-1 min-w-[12rem]">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={filters.search}
+          onChange={(e) => onChange({ ...filters, search: e.target.value })}
+          placeholder="Search name, email or phone"
+          className="pl-9"
+          aria-label="Search people"
+        />
+      </div>
+
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        size="sm"
+        value={filters.presence || ''}
+        onValueChange={(value) => onChange({ ...filters, presence: (value || null) as PresenceFilter | null })}
+      >
+        {STATUS_CATEGORIES.map((category) => (
+          <ToggleGroupItem key={category.value} value={category.value} aria-label={`Only ${category.label.toLowerCase()}`}>
+            {category.label}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      {statuses.length > 0 && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant={filters.statuses.length > 0 ? 'secondary' : 'outline'} size="sm">
+              <Filter className="mr-2 h-4 w-4" />
+              {filters.statuses.length > 0 ? `Statuses (${filters.statuses.length})` : 'All statuses'}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-56 space-y-2" align="start">
+            {statuses.map((status) => (
+              <div key={status.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`status-filter-${status.id}`}
+                  checked={filters.statuses.includes(status.status_text)}
+                  onCheckedChange={(checked) =>
+                    onChange({ ...filters, statuses: toggleValue(filters.statuses, status.status_text, checked === true) })
+                  }
+                />
+                <Label htmlFor={`status-filter-${status.id}`} className="font-normal">
+                  <StatusBadge status={status.status_text} meta={status} />
+                </Label>
+              </div>
+            ))}
+          </PopoverContent>
+        </Popover>
+      )}
+
+      {departments.length > 0 && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant={filters.departments.length > 0 ? 'secondary' : 'outline'} size="sm">
+              <Filter className="mr-2 h-4 w-4" />
+              {filters.departments.length > 0 ? `Departments (${filters.departments.length})` : 'All departments'}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-56 space-y-2" align="start">
+            {departmentOptions.map((department) => (
+              <div key={department.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`department-filter-${department.id}`}
+                  checked={filters.departments.includes(department.id)}
+                  onCheckedChange={(checked) =>
+                    onChange({ ...filters, departments: toggleValue(filters.departments, department.id, checked === true) })
+                  }
+                />
+                <Label htmlFor={`department-filter-${department.id}`} className="text-sm font-normal">
+                  {department.name}
+                </Label>
+              </div>
+            ))}
+          </PopoverContent>
+        </Popover>
+      )}
+
+      {hasActiveFilters(filters) && (
+        <Button variant="ghost" size="sm" onClick={() => onChange(EMPTY_BOARD_FILTERS)}>
+          <X className="mr-2 h-4 w-4" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+};
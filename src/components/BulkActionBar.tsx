@@ -0,0 +1,246 @@
+import { useState } from 'react';
+import { DateRange } from 'react-day-picker';
+import { format } from 'date-fns';
+import { Calendar as CalendarIcon, CalendarClock, Loader2, Repeat, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePredefinedStatuses } from '@/hooks/use-predefined-statuses';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { StatusInput } from '@/components/StatusInput';
+import { getTodayDateInTimeZone } from '@/lib/dates';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+const WEEK = [
+  { day: 'Monday', dayOfWeek: 1 },
+  { day: 'Tuesday', dayOfWeek: 2 },
+  { day: 'Wednesday', dayOfWeek: 3 },
+  { day: 'Thursday', dayOfWeek: 4 },
+  { day: 'Friday', dayOfWeek: 5 },
+  { day: 'Saturday', dayOfWeek: 6 },
+  { day: 'Sunday', dayOfWeek: 0 },
+];
+
+type BulkAction = 'status' | 'schedule' | 'recurring';
+
+interface BulkActionBarProps {
+  selectedIds: string[];
+  onClear: () => void;
+  onDone: () => void;
+}
+
+export const BulkActionBar = ({ selectedIds, onClear, onDone }: BulkActionBarProps) => {
+  const { timeZone } = useAuth();
+  const { statuses } = usePredefinedStatuses();
+  const [openAction, setOpenAction] = useState<BulkAction | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState('');
+  const [scheduleRange, setScheduleRange] = useState<DateRange | undefined>(undefined);
+  const [scheduleSkipWeekends, setScheduleSkipWeekends] = useState(false);
+  const [pattern, setPattern] = useState<Record<number, string>>({});
+
+  const count = selectedIds.length;
+  const people = `${count} ${count === 1 ? 'person' : 'people'}`;
+
+  const openDialog = (action: BulkAction) => {
+    setStatus('');
+    setScheduleRange(undefined);
+    setScheduleSkipWeekends(false);
+    setPattern({});
+    setOpenAction(action);
+  };
+
+  const runAction = async (action: () => PromiseLike<{ error: unknown }>, successMessage: string) => {
+    setIsSaving(true);
+    try {
+      const { error } = await action();
+
+      if (error) throw error;
+
+      toast.success(successMessage);
+      setOpenAction(null);
+      onDone();
+    } catch (error) {
+      console.error('Error updating selected people:', error);
+      toast.error('Failed to update the selected people');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSetStatus = () => {
+    if (!status.trim()) return;
+
+    runAction(
+      () => supabase.rpc('bulk_set_status', { p_employee_ids: selectedIds, p_status: status.trim() }),
+      `Status updated for ${people}`
+    );
+  };
+
+  const handleSchedule = () => {
+    if (!scheduleRange?.from || !status.trim()) return;
+
+    runAction(
+      () => supabase.rpc('bulk_schedule_status', {
+        p_employee_ids: selectedIds,
+        p_from: format(scheduleRange.from, 'yyyy-MM-dd'),
+        p_to: format(scheduleRange.to || scheduleRange.from, 'yyyy-MM-dd'),
+        p_status: status.trim(),
+        p_skip_weekends: scheduleSkipWeekends,
+      }),
+      `Status scheduled for ${people}`
+    );
+  };
+
+  const handleSetRecurring = () => {
+    const days = Object.fromEntries(
+      Object.entries(pattern)
+        .map(([day, text]) => [day, text.trim()])
+        .filter(([, text]) => text)
+    );
+
+    runAction(
+      () => supabase.rpc('bulk_set_recurring_statuses', { p_employee_ids: selectedIds, p_pattern: days }),
+      `Weekly pattern applied to ${people}`
+    );
+  };
+
+  const rangeLabel = scheduleRange?.from
+    ? scheduleRange.to && scheduleRange.to.getTime() !== scheduleRange.from.getTime()
+      ? `${format(scheduleRange.from, 'MMM dd')} - ${format(scheduleRange.to, 'MMM dd, yyyy')}`
+      : format(scheduleRange.from, 'PPP')
+    : 'Pick dates';
+
+  return (
+    <div className="sticky top-2 z-10 flex flex-wrap items-center gap-2 rounded-lg border border-primary/50 bg-card p-2 shadow-sm">
+      <span className="px-2 text-sm font-medium">{count} selected</span>
+      <Button size="sm" onClick={() => openDialog('status')}>
+        Set Status
+      </Button>
+      <Button size="sm" variant="outline" onClick={() => openDialog('schedule')}>
+        <CalendarClock className="mr-2 h-4 w-4" />
+        Schedule
+      </Button>
+      <Button size="sm" variant="outline" onClick={() => openDialog('recurring')}>
+        <Repeat className="mr-2 h-4 w-4" />
+        Recurring
+      </Button>
+      <Button size="sm" variant="ghost" onClick={onClear} className="ml-auto">
+        <X className="mr-2 h-4 w-4" />
+        Clear
+      </Button>
+
+      <Dialog open={openAction !== null} onOpenChange={(open) => !open && setOpenAction(null)}>
+        <DialogContent>
+          {openAction === 'status' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Set Status</DialogTitle>
+                <DialogDescription>Change the status of {people} right now.</DialogDescription>
+              </DialogHeader>
+              <StatusInput value={status} onChange={setStatus} statuses={statuses} />
+            </>
+          )}
+
+          {openAction === 'schedule' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Schedule Status</DialogTitle>
+                <DialogDescription>Add the same scheduled status to {people}.</DialogDescription>
+              </DialogHeader>
+              <div className="space-y-3">
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className={cn("w-full justify-start text-left font-normal", !scheduleRange?.from && "text-muted-foreground")}
+                    >
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {rangeLabel}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="range"
+                      selected={scheduleRange}
+                      onSelect={setScheduleRange}
+                      disabled={(date) => date < getTodayDateInTimeZone(timeZone)}
+                      initialFocus
+                      className={cn("p-3 pointer-events-auto")}
+                    />
+                  </PopoverContent>
+                </Popover>
+                <StatusInput value={status} onChange={setStatus} statuses={statuses} />
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="bulk-skip-weekends"
+                    checked={scheduleSkipWeekends}
+                    onCheckedChange={(checked) => setScheduleSkipWeekends(checked === true)}
+                  />
+                  <Label htmlFor="bulk-skip-weekends" className="text-sm font-normal">
+                    Skip weekends
+                  </Label>
+                </div>
+              </div>
+            </>
+          )}
+
+          {openAction === 'recurring' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Recurring Statuses</DialogTitle>
+                <DialogDescription>
+                  Replace the weekly pattern of {people} and turn recurring statuses on for them.
+                  Monthly, every few weeks, dated and timed rules are kept and still come first.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                {WEEK.map(({ day, dayOfWeek }) => (
+                  <div key={dayOfWeek} className="grid grid-cols-[6rem_1fr] items-center gap-2">
+                    <Label className="text-sm">{day}</Label>
+                    <StatusInput
+                      value={pattern[dayOfWeek] || ''}
+                      onChange={(value) => setPattern({ ...pattern, [dayOfWeek]: value })}
+                      statuses={statuses}
+                      allowEmpty
+                    />
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setOpenAction(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button
+              onClick={
+                openAction === 'status' ? handleSetStatus : openAction === 'schedule' ? handleSchedule : handleSetRecurring
+              }
+              disabled={
+                isSaving ||
+                (openAction !== 'recurring' && !status.trim()) ||
+                (openAction === 'schedule' && !scheduleRange?.from)
+              }
+            >
+              {isSaving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                'Apply'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import { useState, useEffect } from 'react';
+import { CalendarPlus, Copy, RefreshCw, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+
+interface CalendarFeedProps {
+  tenantId: string;
+  // Leave out for the feed of the whole tenant
+  employeeId?: string;
+}
+
+const getFeedUrl = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+
+export const CalendarFeed = ({ tenantId, employeeId }: CalendarFeedProps) => {
+  const [token, setToken] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadToken();
+  }, [tenantId, employeeId]);
+
+  const loadToken = async () => {
+    try {
+      let query = supabase
+        .from('calendar_feed_tokens')
+        .select('token')
+        .eq('tenant_id', tenantId);
+      query = employeeId ? query.eq('employee_id', employeeId) : query.is('employee_id', null);
+
+      const { data, error } = await query.maybeSingle();
+
+      if (error) throw error;
+
+      setToken(data?.token || null);
+    } catch (error) {
+      console.error('Error loading calendar feed:', error);
+    }
+  };
+
+  const deleteToken = async () => {
+    let query = supabase
+      .from('calendar_feed_tokens')
+      .delete()
+      .eq('tenant_id', tenantId);
+    query = employeeId ? query.eq('employee_id', employeeId) : query.is('employee_id', null);
+
+    const { error } = await query;
+    if (error) throw error;
+  };
+
+  // Creating a new link also invalidates the old one
+  const handleCreate = async () => {
+    setIsSaving(true);
+    try {
+      if (token) await deleteToken();
+
+      const { data, error } = await supabase
+        .from('calendar_feed_tokens')
+        .insert({ tenant_id: tenantId, employee_id: employeeId || null })
+        .select('token')
+        .single();
+
+      if (error) throw error;
+
+      setToken(data.token);
+      toast.success(token ? 'New calendar link created' : 'Calendar link created');
+    } catch (error) {
+      console.error('Error creating calendar feed:', error);
+      toast.error('Failed to create calendar link');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    setIsSaving(true);
+    try {
+      await deleteToken();
+      setToken(null);
+      toast.success('Calendar link revoked');
+    } catch (error) {
+      console.error('Error revoking calendar feed:', error);
+      toast.error('Failed to revoke calendar link');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!token) return;
+
+    try {
+      await navigator.clipboard.writeText(getFeedUrl(token));
+      toast.success('Link copied');
+    } catch (error) {
+      console.error('Error copying link:', error);
+      toast.error('Failed to copy link');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Calendar Feed</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {employeeId
+            ? 'Subscribe to this link in Outlook, Google Calendar or Apple Calendar to see these scheduled and recurring statuses there.'
+            : "Subscribe to this link in Outlook, Google Calendar or Apple Calendar to see everyone's scheduled and recurring statuses there."}
+          {' '}Anyone with the link can see the statuses, so create a new one if it leaks.
+        </p>
+
+        {token ? (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Input value={getFeedUrl(token)} readOnly onFocus={(e) => e.target.select()} aria-label="Calendar link" />
+              <Button variant="ghost" size="icon" onClick={handleCopy} aria-label="Copy link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handleCreate} disabled={isSaving}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                New link
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleRevoke} disabled={isSaving}>
+                <Trash2 className="mr-2 h-4 w-4 text-destructive" />
+                Revoke
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="outline" onClick={handleCreate} disabled={isSaving}>
+            <CalendarPlus className="mr-2 h-4 w-4" />
+            Create calendar link
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -5,12 +5,14 @@ import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
 import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
 
 interface DailyMessageProps {
   tenantId: string;
 }
 
 export const DailyMessage = ({ tenantId }: DailyMessageProps) => {
+  const { isAdmin } = useAuth();
   const [message, setMessage] = useState('');
   const [editedMessage, setEditedMessage] = useState('');
   const [isOpen, setIsOpen] = useState(false);
@@ -85,39 +87,41 @@ export const DailyMessage = ({ tenantId }: DailyMessageProps) => {
         )}
       </div>
       
-      <Dialog open={isOpen} onOpenChange={setIsOpen}>
-        <DialogTrigger asChild>
-          <Button 
-            variant="ghost" 
-            size="icon" 
-            className="shrink-0 relative z-10 hover-scale transition-all hover:bg-accent/50"
-            onClick={handleOpenDialog}
-          >
-            <Pencil className="h-4 w-4" />
-          </Button>
-        </DialogTrigger>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Edit Today's Message</DialogTitle>
-          </DialogHeader>
-          <div className="space-y-4">
-            <Textarea
-              value={editedMessage}
-              onChange={(e) => setEditedMessage(e.target.value)}
-              placeholder="Enter the rolling message..."
-              className="min-h-[120px]"
-            />
-            <div className="flex justify-end gap-2">
-              <Button variant="outline" onClick={() => setIsOpen(false)}>
-                Cancel
-              </Button>
-              <Button onClick={handleSave} disabled={isSaving}>
-                {isSaving ? 'Saving...' : 'Save'}
-              </Button>
+      {isAdmin && (
+        <Dialog open={isOpen} onOpenChange={setIsOpen}>
+          <DialogTrigger asChild>
+            <Button 
+              variant="ghost" 
+              size="icon" 
+              className="shrink-0 relative z-10 hover-scale transition-all hover:bg-accent/50"
+              onClick={handleOpenDialog}
+            >
+              <Pencil className="h-4 w-4" />
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Edit Today's Message</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <Textarea
+                value={editedMessage}
+                onChange={(e) => setEditedMessage(e.target.value)}
+                placeholder="Enter the rolling message..."
+                className="min-h-[120px]"
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setIsOpen(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleSave} disabled={isSaving}>
+                  {isSaving ? 'Saving...' : 'Save'}
+                </Button>
+              </div>
             </div>
-          </div>
-        </DialogContent>
-      </Dialog>
+          </DialogContent>
+        </Dialog>
+      )}
 
       <style>{`
         .ticker-container {
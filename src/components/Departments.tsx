@@ -0,0 +1,145 @@
+import { useState, useEffect } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useDepartments } from '@/hooks/use-departments';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+
+interface DepartmentsProps {
+  tenantId: string;
+}
+
+export const Departments = ({ tenantId }: DepartmentsProps) => {
+  const { departments, reload } = useDepartments();
+  const [names, setNames] = useState<{ [id: string]: string }>({});
+  const [newName, setNewName] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+
+  useEffect(() => {
+    setNames(Object.fromEntries(departments.map((d) => [d.id, d.name])));
+  }, [departments]);
+
+  const handleAdd = async () => {
+    const name = newName.trim();
+    if (!name) return;
+
+    if (departments.some((d) => d.name.toLowerCase() === name.toLowerCase())) {
+      toast.error('This department already exists');
+      return;
+    }
+
+    setIsAdding(true);
+    try {
+      const { error } = await supabase
+        .from('departments')
+        .insert({ tenant_id: tenantId, name });
+
+      if (error) throw error;
+
+      setNewName('');
+      toast.success('Department added');
+      reload();
+    } catch (error) {
+      console.error('Error adding department:', error);
+      toast.error('Failed to add department');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRename = async (id: string) => {
+    const department = departments.find((d) => d.id === id);
+    const name = (names[id] || '').trim();
+    if (!department || name === department.name) return;
+
+    if (!name) {
+      setNames({ ...names, [id]: department.name });
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('departments')
+        .update({ name })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast.success('Department renamed');
+      reload();
+    } catch (error) {
+      console.error('Error renaming department:', error);
+      toast.error('Failed to rename department');
+      setNames({ ...names, [id]: department.name });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('departments')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast.success('Department removed');
+      reload();
+    } catch (error) {
+      console.error('Error deleting department:', error);
+      toast.error('Failed to remove department');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Departments</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Group people on the board by department. Removing a department keeps its people on the board without one.
+        </p>
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="Department name, e.g. Sales"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            maxLength={100}
+          />
+          <Button onClick={handleAdd} disabled={!newName.trim() || isAdding}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          {departments.map((department) => (
+            <div key={department.id} className="flex items-center gap-2">
+              <Input
+                value={names[department.id] ?? department.name}
+                onChange={(e) => setNames({ ...names, [department.id]: e.target.value })}
+                onBlur={() => handleRename(department.id)}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                maxLength={100}
+                aria-label="Department name"
+              />
+              <Button variant="ghost" size="icon" onClick={() => handleDelete(department.id)} aria-label="Remove department">
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {departments.length === 0 && (
+          <p className="text-center py-4 text-sm text-muted-foreground">
+            No departments yet
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
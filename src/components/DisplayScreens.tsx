@@ -0,0 +1,160 @@
+import { useState, useEffect } from 'react';
+import { Copy, ExternalLink, Plus, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+
+interface DisplayToken {
+  id: string;
+  name: string;
+  token: string;
+  last_used_at: string | null;
+}
+
+interface DisplayScreensProps {
+  tenantId: string;
+}
+
+export const DisplayScreens = ({ tenantId }: DisplayScreensProps) => {
+  const [tokens, setTokens] = useState<DisplayToken[]>([]);
+  const [newName, setNewName] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+
+  useEffect(() => {
+    loadTokens();
+  }, [tenantId]);
+
+  const loadTokens = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('display_tokens')
+        .select('id, name, token, last_used_at')
+        .eq('tenant_id', tenantId)
+        .order('created_at');
+
+      if (error) throw error;
+
+      setTokens(data || []);
+    } catch (error) {
+      console.error('Error loading display tokens:', error);
+    }
+  };
+
+  const getDisplayUrl = (token: string) => `${window.location.origin}/display?token=${token}`;
+
+  const handleAdd = async () => {
+    if (!newName.trim()) return;
+
+    setIsAdding(true);
+    try {
+      const { data, error } = await supabase
+        .from('display_tokens')
+        .insert({ tenant_id: tenantId, name: newName.trim() })
+        .select('id, name, token, last_used_at')
+        .single();
+
+      if (error) throw error;
+
+      setTokens([...tokens, data]);
+      setNewName('');
+      toast.success('Display link created');
+    } catch (error) {
+      console.error('Error creating display token:', error);
+      toast.error('Failed to create display link');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleCopy = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getDisplayUrl(token));
+      toast.success('Link copied');
+    } catch (error) {
+      console.error('Error copying link:', error);
+      toast.error('Failed to copy link');
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('display_tokens')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setTokens(tokens.filter((t) => t.id !== id));
+      toast.success('Display link revoked');
+    } catch (error) {
+      console.error('Error revoking display token:', error);
+      toast.error('Failed to revoke display link');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Display Screens</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Create a read-only link for an office screen. Anyone with the link can see the board, so revoke it if it leaks.
+        </p>
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="Screen name, e.g. Hallway TV"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          />
+          <Button onClick={handleAdd} disabled={!newName.trim() || isAdding}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          {tokens.map((displayToken) => (
+            <div
+              key={displayToken.id}
+              className="flex items-center justify-between p-3 bg-card rounded-lg border border-border"
+            >
+              <div className="min-w-0">
+                <p className="text-foreground truncate">{displayToken.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {displayToken.last_used_at
+                    ? `Last seen ${format(new Date(displayToken.last_used_at), 'MMM dd, yyyy HH:mm')}`
+                    : 'Never opened'}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="icon" onClick={() => handleCopy(displayToken.token)} aria-label="Copy link">
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" asChild aria-label="Open display">
+                  <a href={getDisplayUrl(displayToken.token)} target="_blank" rel="noopener noreferrer">
+                    <ExternalLink className="h-4 w-4" />
+                  </a>
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => handleRevoke(displayToken.id)} aria-label="Revoke link">
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {tokens.length === 0 && (
+          <p className="text-center py-4 text-sm text-muted-foreground">
+            No display links yet
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -2,55 +2,115 @@ import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardContent } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePredefinedStatuses } from '@/hooks/use-predefined-statuses';
+import { useDepartments } from '@/hooks/use-departments';
+import { groupByDepartment, hasDepartmentGroups } from '@/lib/departments';
+import { StatusBadge } from '@/components/StatusBadge';
+import { StatusDetailsForm, StatusDetailsTooltip } from '@/components/StatusDetails';
+import { StatusExpirySelect } from '@/components/StatusExpirySelect';
+import { StatusTimeLeft } from '@/components/StatusTimeLeft';
+import { UpcomingStatus } from '@/components/UpcomingStatus';
+import { useDragReorder } from '@/hooks/use-drag-reorder';
+import { useLongPress } from '@/hooks/use-long-press';
+import { getStatusExpiresAt } from '@/lib/status-expiry';
+import { cn } from '@/lib/utils';
+import { GripVertical, MessageSquare } from 'lucide-react';
 import { toast } from 'sonner';
 
 interface Employee {
   id: string;
   name: string;
   status: string;
+  status_expires_at: string | null;
+  status_note: string | null;
+  status_return_at: string | null;
+  status_contact: string | null;
+  next_status: string | null;
+  next_status_change_at: string | null;
   image_url: string | null;
+  department_id: string | null;
 }
 
 interface EmployeeCardViewProps {
   employees: Employee[];
   onEmployeeUpdate: () => void;
+  // Admins can select people for bulk actions
+  selectedIds?: string[];
+  onSelectionChange?: (ids: string[]) => void;
 }
 
-const EmployeeCardView = ({ employees, onEmployeeUpdate }: EmployeeCardViewProps) => {
+const EmployeeCardView = ({ employees, onEmployeeUpdate, selectedIds = [], onSelectionChange }: EmployeeCardViewProps) => {
   const navigate = useNavigate();
-  const { user } = useAuth();
+  const { isAdmin, canEditEmployee, timeZone } = useAuth();
+  const { statusTexts: predefinedStatuses, getStatusMeta } = usePredefinedStatuses();
+  const { departments } = useDepartments();
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editValue, setEditValue] = useState('');
-  const [predefinedStatuses, setPredefinedStatuses] = useState<string[]>([]);
   const [showCustomInput, setShowCustomInput] = useState(false);
-  
-  const sortedEmployees = [...employees].sort((a, b) => 
-    a.name.localeCompare(b.name)
-  );
+  const [editExpiry, setEditExpiry] = useState('');
+  const [detailsOpen, setDetailsOpen] = useState(false);
+  const [pendingOrder, setPendingOrder] = useState<Employee[] | null>(null);
 
   useEffect(() => {
-    loadPredefinedStatuses();
-  }, [user]);
+    setPendingOrder(null);
+  }, [employees]);
+
+  // Employees arrive in their custom order
+  const sortedEmployees = pendingOrder || employees;
 
-  const loadPredefinedStatuses = async () => {
-    if (!user) return;
+  const handleReorder = async (reordered: Employee[]) => {
+    setPendingOrder(reordered);
 
     try {
-      const { data, error } = await supabase
-        .from('predefined_statuses')
-        .select('status_text')
-        .eq('tenant_id', user.id)
-        .order('created_at');
+      const { error } = await supabase.rpc('reorder_employees', {
+        p_ids: reordered.map((e) => e.id),
+      });
 
       if (error) throw error;
-
-      setPredefinedStatuses(data?.map(s => s.status_text) || []);
     } catch (error) {
-      console.error('Error loading predefined statuses:', error);
+      console.error('Error reordering employees:', error);
+      toast.error('Failed to save the new order');
+      setPendingOrder(null);
+    }
+  };
+
+  const groups = groupByDepartment(sortedEmployees, departments);
+  const showGroups = hasDepartmentGroups(groups);
+
+  // Reorder in the order cards are shown, so the saved order matches the sections
+  const { draggingId, overId, getDragProps } = useDragReorder(
+    groups.flatMap((group) => group.employees),
+    handleReorder
+  );
+
+  const canSelect = isAdmin && !!onSelectionChange;
+  const isSelecting = canSelect && selectedIds.length > 0;
+
+  const toggleSelected = (employeeId: string) => {
+    onSelectionChange?.(
+      selectedIds.includes(employeeId)
+        ? selectedIds.filter((id) => id !== employeeId)
+        : [...selectedIds, employeeId]
+    );
+  };
+
+  // A long press starts selecting; while selecting, a tap on a card toggles it
+  const { getLongPressProps, consumeLongPress } = useLongPress((employeeId) => {
+    if (!selectedIds.includes(employeeId)) toggleSelected(employeeId);
+  });
+
+  const handleCardClickCapture = (e: React.MouseEvent, employeeId: string) => {
+    if (consumeLongPress()) {
+      e.stopPropagation();
+    } else if (isSelecting) {
+      e.stopPropagation();
+      toggleSelected(employeeId);
     }
   };
 
@@ -58,14 +118,28 @@ const EmployeeCardView = ({ employees, onEmployeeUpdate }: EmployeeCardViewProps
     setEditingId(employee.id);
     setEditValue(employee.status);
     setShowCustomInput(false);
+    setEditExpiry('');
+    setDetailsOpen(false);
+  };
+
+  const handleDetailsSaved = () => {
+    setDetailsOpen(false);
+    setEditingId(null);
+    onEmployeeUpdate();
   };
 
   const handleSaveStatus = async (employeeId: string, statusValue?: string) => {
     const valueToSave = statusValue || editValue;
+    const expiresAt = getStatusExpiresAt(editExpiry, timeZone);
+    if (expiresAt && expiresAt <= new Date()) {
+      toast.error('Pick a time later today');
+      return;
+    }
+
     try {
       const { error } = await supabase
         .from('employees')
-        .update({ status: valueToSave })
+        .update({ status: valueToSave, status_expires_at: expiresAt?.toISOString() ?? null })
         .eq('id', employeeId);
 
       if (error) throw error;
@@ -107,75 +181,135 @@ const EmployeeCardView = ({ employees, onEmployeeUpdate }: EmployeeCardViewProps
   };
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-      {sortedEmployees.map((employee) => (
-        <Card key={employee.id} className="hover:border-primary/50 transition-colors">
-          <CardContent className="p-4 space-y-3">
-            <div 
-              className="flex items-center gap-3 cursor-pointer"
-              onClick={() => navigate(`/employee/${employee.id}`)}
-            >
-              <Avatar className="h-12 w-12">
-                <AvatarImage src={employee.image_url || undefined} />
-                <AvatarFallback className="text-sm">
-                  {getInitials(employee.name)}
-                </AvatarFallback>
-              </Avatar>
-              <div className="font-medium text-foreground hover:text-primary transition-colors">
-                {employee.name}
-              </div>
-            </div>
-            
-            <div className="space-y-1">
-              <div className="text-xs text-muted-foreground">Status</div>
-              {editingId === employee.id ? (
-                <div className="flex gap-2">
-                  {showCustomInput ? (
-                    <Input
-                      value={editValue}
-                      onChange={(e) => setEditValue(e.target.value)}
-                      onBlur={() => handleSaveStatus(employee.id)}
-                      onKeyDown={(e) => handleKeyDown(e, employee.id)}
-                      autoFocus
-                      className="h-8 flex-1"
-                      placeholder="Enter custom status"
-                    />
-                  ) : (
-                    <Select
-                      value={predefinedStatuses.includes(editValue) ? editValue : '__placeholder__'}
-                      onValueChange={(value) => handleSelectChange(value, employee.id)}
-                    >
-                      <SelectTrigger className="h-8 flex-1">
-                        <SelectValue placeholder={!predefinedStatuses.includes(editValue) ? editValue : 'Select status'} />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {predefinedStatuses.map((status) => (
-                          <SelectItem key={status} value={status}>
-                            {status}
-                          </SelectItem>
-                        ))}
-                        <SelectItem value="__custom__">Custom...</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  )}
-                  <button
-                    onClick={() => setShowCustomInput(!showCustomInput)}
-                    className="text-xs px-2 py-1 h-8 rounded bg-secondary text-secondary-foreground hover:bg-secondary/80"
+    <div className="space-y-6">
+      {groups.map((group) => (
+        <section key={group.department?.id || 'none'} className="space-y-3">
+          {showGroups && (
+            <h2 className="text-sm font-semibold text-muted-foreground">
+              {group.department?.name || 'No department'}
+            </h2>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+            {group.employees.map((employee) => (
+              <Card
+                key={employee.id}
+                className={cn(
+                  'hover:border-primary/50 transition-colors select-none',
+                  selectedIds.includes(employee.id) && 'border-primary bg-primary/5',
+                  draggingId === employee.id && 'opacity-50',
+                  overId === employee.id && draggingId !== employee.id && 'border-primary'
+                )}
+                {...getDragProps(employee.id, isAdmin)}
+                {...getLongPressProps(employee.id, canSelect)}
+                onClickCapture={(e) => handleCardClickCapture(e, employee.id)}
+              >
+                <CardContent className="p-4 space-y-3">
+                  <div 
+                    className="flex items-center gap-3 cursor-pointer"
+                    onClick={() => navigate(`/employee/${employee.id}`)}
                   >
-                    {showCustomInput ? '☰' : '✎'}
-                  </button>
-                </div>
-              ) : (
-                <button
-                  onClick={() => handleStartEdit(employee)}
-                  className="text-left text-muted-foreground hover:text-foreground transition-colors px-3 py-1 rounded hover:bg-accent w-full text-left"
-                >
-                  {employee.status}
-                </button>
-              )}
-            </div>
-          </CardContent>
-        </Card>
+                    {isSelecting && (
+                      <Checkbox
+                        checked={selectedIds.includes(employee.id)}
+                        aria-label={`Select ${employee.name}`}
+                        tabIndex={-1}
+                      />
+                    )}
+                    {isAdmin && <GripVertical className="h-4 w-4 -mr-2 text-muted-foreground cursor-grab" />}
+                    <Avatar className="h-12 w-12">
+                      <AvatarImage src={employee.image_url || undefined} />
+                      <AvatarFallback className="text-sm">
+                        {getInitials(employee.name)}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="font-medium text-foreground hover:text-primary transition-colors">
+                      {employee.name}
+                    </div>
+                  </div>
+                  
+                  <div className="space-y-1">
+                    <div className="text-xs text-muted-foreground">Status</div>
+                    {editingId === employee.id ? (
+                      <div className="space-y-2">
+                        <StatusExpirySelect value={editExpiry} onChange={setEditExpiry} />
+                        <div className="flex gap-2">
+                          {showCustomInput ? (
+                            <Input
+                              value={editValue}
+                              onChange={(e) => setEditValue(e.target.value)}
+                              onBlur={() => handleSaveStatus(employee.id)}
+                              onKeyDown={(e) => handleKeyDown(e, employee.id)}
+                              autoFocus
+                              className="h-8 flex-1"
+                              placeholder="Enter custom status"
+                            />
+                          ) : (
+                            <Select
+                              value={predefinedStatuses.includes(editValue) ? editValue : '__placeholder__'}
+                              onValueChange={(value) => handleSelectChange(value, employee.id)}
+                            >
+                              <SelectTrigger className="h-8 flex-1">
+                                <SelectValue placeholder={!predefinedStatuses.includes(editValue) ? editValue : 'Select status'} />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {predefinedStatuses.map((status) => (
+                                  <SelectItem key={status} value={status}>
+                                    <StatusBadge status={status} meta={getStatusMeta(status)} />
+                                  </SelectItem>
+                                ))}
+                                <SelectItem value="__custom__">Custom...</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          )}
+                          <button
+                            onClick={() => setShowCustomInput(!showCustomInput)}
+                            className="text-xs px-2 py-1 h-8 rounded bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                          >
+                            {showCustomInput ? '☰' : '✎'}
+                          </button>
+                          <Popover open={detailsOpen} onOpenChange={setDetailsOpen}>
+                            <PopoverTrigger asChild>
+                              <button
+                                className="px-2 py-1 h-8 rounded bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                                aria-label="Status details"
+                              >
+                                <MessageSquare className="h-4 w-4" />
+                              </button>
+                            </PopoverTrigger>
+                            <PopoverContent className="w-80" align="end">
+                              <StatusDetailsForm employeeId={employee.id} details={employee} onSaved={handleDetailsSaved} />
+                            </PopoverContent>
+                          </Popover>
+                        </div>
+                      </div>
+                    ) : canEditEmployee(employee.id) ? (
+                      <button
+                        onClick={() => handleStartEdit(employee)}
+                        className="flex flex-wrap items-center gap-x-2 gap-y-1 text-left transition-colors px-3 py-1 rounded hover:bg-accent w-full"
+                      >
+                        <StatusBadge status={employee.status} meta={getStatusMeta(employee.status)} />
+                        {employee.status_expires_at && <StatusTimeLeft expiresAt={employee.status_expires_at} />}
+                        <StatusDetailsTooltip details={employee} />
+                        {employee.next_status && employee.next_status_change_at && employee.next_status !== employee.status && (
+                          <UpcomingStatus status={employee.next_status} at={employee.next_status_change_at} />
+                        )}
+                      </button>
+                    ) : (
+                      <span className="flex flex-wrap items-center gap-x-2 gap-y-1 px-3 py-1">
+                        <StatusBadge status={employee.status} meta={getStatusMeta(employee.status)} />
+                        {employee.status_expires_at && <StatusTimeLeft expiresAt={employee.status_expires_at} />}
+                        <StatusDetailsTooltip details={employee} />
+                        {employee.next_status && employee.next_status_change_at && employee.next_status !== employee.status && (
+                          <UpcomingStatus status={employee.next_status} at={employee.next_status_change_at} />
+                        )}
+                      </span>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </section>
       ))}
     </div>
   );
@@ -0,0 +1,343 @@
+import { useState, ChangeEvent } from 'react';
+import { Download, Loader2, Upload } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useDepartments } from '@/hooks/use-departments';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { downloadCsv, parseCsv } from '@/lib/csv';
+import { getTodayInTimeZone } from '@/lib/dates';
+import { validateEmployeeField } from '@/lib/employee-validation';
+import { WEEKDAY_NAMES, describeRecurrence } from '@/lib/recurrence';
+import { toTimeInput } from '@/lib/time-range';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+const EMPLOYEE_COLUMNS = ['name', 'email', 'phone', 'status', 'department'];
+const DEFAULT_STATUS = 'Available';
+
+interface ImportRow {
+  line: number;
+  name: string;
+  email: string;
+  phone: string;
+  status: string;
+  department: string;
+  errors: string[];
+}
+
+interface EmployeeImportExportProps {
+  tenantId: string;
+}
+
+// Reads the spreadsheet rows into people, checking each with the same rules
+// as the profile page. Columns are matched by header, in any order.
+const toImportRows = (rows: string[][]): ImportRow[] | string => {
+  const [header, ...body] = rows;
+  if (!header) return 'The file is empty';
+
+  const columns = header.map((h) => h.trim().toLowerCase());
+  if (!columns.includes('name')) return 'The file needs a "name" column';
+
+  const get = (row: string[], column: string) => {
+    const index = columns.indexOf(column);
+    return index === -1 ? '' : (row[index] || '').trim();
+  };
+
+  return body.map((row, i) => {
+    const importRow = {
+      line: i + 2,
+      name: get(row, 'name'),
+      email: get(row, 'email'),
+      phone: get(row, 'phone'),
+      status: get(row, 'status'),
+      department: get(row, 'department'),
+    };
+
+    const errors = (['name', 'email', 'phone'] as const)
+      .map((field) => validateEmployeeField(field, importRow[field]))
+      .filter((error): error is string => error !== null);
+
+    if (importRow.department.length > 100) {
+      errors.push('Department must be less than 100 characters');
+    }
+
+    return { ...importRow, errors };
+  });
+};
+
+export const EmployeeImportExport = ({ tenantId }: EmployeeImportExportProps) => {
+  const { timeZone } = useAuth();
+  const { departments, reload: reloadDepartments } = useDepartments();
+  const [importRows, setImportRows] = useState<ImportRow[] | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const validRows = (importRows || []).filter((row) => row.errors.length === 0);
+  const knownDepartment = (name: string) =>
+    departments.find((d) => d.name.toLowerCase() === name.toLowerCase());
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = toImportRows(parseCsv(await file.text()));
+
+      if (typeof result === 'string') {
+        toast.error(result);
+        return;
+      }
+
+      if (result.length === 0) {
+        toast.error('The file has no people in it');
+        return;
+      }
+
+      setImportRows(result);
+    } catch (error) {
+      console.error('Error reading CSV file:', error);
+      toast.error('Failed to read the file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (validRows.length === 0) return;
+
+    setIsImporting(true);
+    try {
+      // Create any departments the file mentions that don't exist yet
+      const newDepartmentNames = [
+        ...new Map(
+          validRows
+            .filter((row) => row.department && !knownDepartment(row.department))
+            .map((row) => [row.department.toLowerCase(), row.department])
+        ).values(),
+      ];
+
+      let allDepartments = departments;
+      if (newDepartmentNames.length > 0) {
+        const { data, error } = await supabase
+          .from('departments')
+          .insert(newDepartmentNames.map((name) => ({ tenant_id: tenantId, name })))
+          .select('id, name');
+
+        if (error) throw error;
+
+        allDepartments = [...departments, ...(data || [])];
+      }
+
+      const { error } = await supabase
+        .from('employees')
+        .insert(validRows.map((row) => ({
+          tenant_id: tenantId,
+          name: row.name,
+          email: row.email || null,
+          phone: row.phone || null,
+          status: row.status || DEFAULT_STATUS,
+          department_id: row.department
+            ? allDepartments.find((d) => d.name.toLowerCase() === row.department.toLowerCase())?.id || null
+            : null,
+        })));
+
+      if (error) throw error;
+
+      toast.success(`Imported ${validRows.length} ${validRows.length === 1 ? 'person' : 'people'}`);
+      setImportRows(null);
+      reloadDepartments();
+    } catch (error) {
+      console.error('Error importing employees:', error);
+      toast.error('Failed to import people');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleExport = async (kind: 'employees' | 'scheduled' | 'recurring') => {
+    setIsExporting(true);
+    try {
+      const { data: employees, error } = await supabase
+        .from('employees')
+        .select('id, name, email, phone, status, department_id')
+        .eq('tenant_id', tenantId)
+        .order('sort_order');
+
+      if (error) throw error;
+
+      const nameById = new Map((employees || []).map((e) => [e.id, e.name]));
+      const today = getTodayInTimeZone(timeZone);
+
+      if (kind === 'employees') {
+        downloadCsv(`people-${today}.csv`, [
+          EMPLOYEE_COLUMNS,
+          ...(employees || []).map((e) => [
+            e.name,
+            e.email,
+            e.phone,
+            e.status,
+            departments.find((d) => d.id === e.department_id)?.name,
+          ]),
+        ]);
+      } else if (kind === 'scheduled') {
+        const { data, error: scheduledError } = await supabase
+          .from('scheduled_statuses')
+          .select('employee_id, scheduled_date, end_date, skip_weekends, start_time, end_time, status_text')
+          .eq('tenant_id', tenantId)
+          .order('scheduled_date');
+
+        if (scheduledError) throw scheduledError;
+
+        downloadCsv(`scheduled-statuses-${today}.csv`, [
+          ['name', 'start_date', 'end_date', 'skip_weekends', 'start_time', 'end_time', 'status'],
+          ...(data || []).map((s) => [
+            nameById.get(s.employee_id),
+            s.scheduled_date,
+            s.end_date,
+            s.skip_weekends,
+            toTimeInput(s.start_time),
+            toTimeInput(s.end_time),
+            s.status_text,
+          ]),
+        ]);
+      } else {
+        const { data, error: recurringError } = await supabase
+          .from('recurring_statuses')
+          .select('employee_id, day_of_week, frequency, interval_weeks, week_of_month, starts_on, ends_on, start_time, end_time, status_text')
+          .eq('tenant_id', tenantId)
+          .order('sort_order');
+
+        if (recurringError) throw recurringError;
+
+        downloadCsv(`recurring-statuses-${today}.csv`, [
+          ['name', 'day', 'repeats', 'status'],
+          ...(data || []).map((r) => [
+            nameById.get(r.employee_id),
+            WEEKDAY_NAMES[r.day_of_week],
+            describeRecurrence(r),
+            r.status_text,
+          ]),
+        ]);
+      }
+    } catch (error) {
+      console.error('Error exporting CSV:', error);
+      toast.error('Failed to export');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import & Export</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            Add many people at once from a CSV file with the columns name, email, phone, status and department.
+            Only name is required. Departments that don't exist yet are created.
+          </p>
+          <input
+            type="file"
+            id="employee-import"
+            accept=".csv,text/csv"
+            onChange={handleFile}
+            className="hidden"
+          />
+          <Label htmlFor="employee-import">
+            <Button variant="outline" onClick={() => document.getElementById('employee-import')?.click()}>
+              <Upload className="mr-2 h-4 w-4" />
+              Choose CSV File
+            </Button>
+          </Label>
+
+          {importRows && (
+            <div className="space-y-3">
+              <div className="max-h-80 overflow-auto rounded-lg border border-border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Line</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Phone</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Department</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {importRows.map((row) => (
+                      <TableRow key={row.line} className={cn(row.errors.length > 0 && 'bg-destructive/10')}>
+                        <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                        <TableCell>
+                          {row.name}
+                          {row.errors.map((error) => (
+                            <p key={error} className="text-xs text-destructive">{error}</p>
+                          ))}
+                        </TableCell>
+                        <TableCell>{row.email}</TableCell>
+                        <TableCell>{row.phone}</TableCell>
+                        <TableCell>{row.status || <span className="text-muted-foreground">{DEFAULT_STATUS}</span>}</TableCell>
+                        <TableCell>
+                          {row.department}
+                          {row.department && !knownDepartment(row.department) && (
+                            <span className="ml-1 text-xs text-muted-foreground">(new)</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {validRows.length < importRows.length && (
+                <p className="text-sm text-destructive">
+                  {importRows.length - validRows.length} of {importRows.length} rows have problems and will be skipped.
+                </p>
+              )}
+
+              <div className="flex gap-2">
+                <Button onClick={handleImport} disabled={validRows.length === 0 || isImporting}>
+                  {isImporting ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Importing...
+                    </>
+                  ) : (
+                    `Import ${validRows.length} ${validRows.length === 1 ? 'Person' : 'People'}`
+                  )}
+                </Button>
+                <Button variant="ghost" onClick={() => setImportRows(null)} disabled={isImporting}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            Download your people and their schedules as CSV files.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => handleExport('employees')} disabled={isExporting}>
+              <Download className="mr-2 h-4 w-4" />
+              People
+            </Button>
+            <Button variant="outline" onClick={() => handleExport('scheduled')} disabled={isExporting}>
+              <Download className="mr-2 h-4 w-4" />
+              Scheduled Statuses
+            </Button>
+            <Button variant="outline" onClick={() => handleExport('recurring')} disabled={isExporting}>
+              <Download className="mr-2 h-4 w-4" />
+              Recurring Statuses
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
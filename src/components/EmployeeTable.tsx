@@ -1,73 +1,104 @@
-import { useState, useEffect } from 'react';
+import { Fragment, useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { ArrowUpDown } from 'lucide-react';
+import { ArrowUpDown, GripVertical, ListOrdered, MessageSquare } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePredefinedStatuses } from '@/hooks/use-predefined-statuses';
+import { useDepartments } from '@/hooks/use-departments';
+import { groupByDepartment, hasDepartmentGroups } from '@/lib/departments';
+import { StatusBadge } from '@/components/StatusBadge';
+import { StatusDetailsForm, StatusDetailsTooltip } from '@/components/StatusDetails';
+import { StatusExpirySelect } from '@/components/StatusExpirySelect';
+import { StatusTimeLeft } from '@/components/StatusTimeLeft';
+import { UpcomingStatus } from '@/components/UpcomingStatus';
+import { useDragReorder } from '@/hooks/use-drag-reorder';
+import { getStatusExpiresAt } from '@/lib/status-expiry';
+import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 
 interface Employee {
   id: string;
   name: string;
   status: string;
+  status_expires_at: string | null;
+  status_note: string | null;
+  status_return_at: string | null;
+  status_contact: string | null;
+  next_status: string | null;
+  next_status_change_at: string | null;
   image_url: string | null;
+  department_id: string | null;
 }
 
 interface EmployeeTableProps {
   employees: Employee[];
   onEmployeeUpdate: () => void;
+  // Admins can select people for bulk actions
+  selectedIds?: string[];
+  onSelectionChange?: (ids: string[]) => void;
 }
 
-type SortField = 'name' | 'status';
+type SortField = 'name' | 'status' | 'custom';
 type SortDirection = 'asc' | 'desc';
 
-const EmployeeTable = ({ employees, onEmployeeUpdate }: EmployeeTableProps) => {
+const EmployeeTable = ({ employees, onEmployeeUpdate, selectedIds = [], onSelectionChange }: EmployeeTableProps) => {
   const navigate = useNavigate();
-  const { user } = useAuth();
+  const { isAdmin, canEditEmployee, timeZone } = useAuth();
+  const { statusTexts: predefinedStatuses, getStatusMeta } = usePredefinedStatuses();
+  const { departments } = useDepartments();
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editValue, setEditValue] = useState('');
-  const [predefinedStatuses, setPredefinedStatuses] = useState<string[]>([]);
   const [showCustomInput, setShowCustomInput] = useState(false);
-  const [sortField, setSortField] = useState<SortField>('name');
+  const [editExpiry, setEditExpiry] = useState('');
+  const [detailsOpen, setDetailsOpen] = useState(false);
+  const [sortField, setSortField] = useState<SortField>(() => {
+    const saved = localStorage.getItem('employeeSortField');
+    return (saved === 'name' || saved === 'status' || saved === 'custom') ? saved : 'name';
+  });
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
+  // Optimistic order while a drag-and-drop reorder is being saved
+  const [pendingOrder, setPendingOrder] = useState<Employee[] | null>(null);
 
   useEffect(() => {
-    loadPredefinedStatuses();
-  }, [user]);
-
-  const loadPredefinedStatuses = async () => {
-    if (!user) return;
-
-    try {
-      const { data, error } = await supabase
-        .from('predefined_statuses')
-        .select('status_text')
-        .eq('tenant_id', user.id)
-        .order('created_at');
-
-      if (error) throw error;
+    localStorage.setItem('employeeSortField', sortField);
+  }, [sortField]);
 
-      setPredefinedStatuses(data?.map(s => s.status_text) || []);
-    } catch (error) {
-      console.error('Error loading predefined statuses:', error);
-    }
-  };
+  useEffect(() => {
+    setPendingOrder(null);
+  }, [employees]);
 
   const handleStartEdit = (employee: Employee) => {
     setEditingId(employee.id);
     setEditValue(employee.status);
     setShowCustomInput(false); // Always start with dropdown
+    setEditExpiry('');
+    setDetailsOpen(false);
+  };
+
+  const handleDetailsSaved = () => {
+    setDetailsOpen(false);
+    setEditingId(null);
+    onEmployeeUpdate();
   };
 
   const handleSaveStatus = async (employeeId: string, statusValue?: string) => {
     const valueToSave = statusValue || editValue;
+    const expiresAt = getStatusExpiresAt(editExpiry, timeZone);
+    if (expiresAt && expiresAt <= new Date()) {
+      toast.error('Pick a time later today');
+      return;
+    }
+
     try {
       const { error } = await supabase
         .from('employees')
-        .update({ status: valueToSave })
+        .update({ status: valueToSave, status_expires_at: expiresAt?.toISOString() ?? null })
         .eq('id', employeeId);
 
       if (error) throw error;
@@ -117,18 +148,79 @@ const EmployeeTable = ({ employees, onEmployeeUpdate }: EmployeeTableProps) => {
     }
   };
 
-  const sortedEmployees = [...employees].sort((a, b) => {
-    const aValue = a[sortField].toLowerCase();
-    const bValue = b[sortField].toLowerCase();
-    const modifier = sortDirection === 'asc' ? 1 : -1;
-    return aValue.localeCompare(bValue) * modifier;
-  });
+  // Employees arrive in their custom order, so 'custom' keeps them as they are
+  const sortedEmployees = sortField === 'custom'
+    ? pendingOrder || employees
+    : [...employees].sort((a, b) => {
+        const aValue = a[sortField].toLowerCase();
+        const bValue = b[sortField].toLowerCase();
+        const modifier = sortDirection === 'asc' ? 1 : -1;
+        return aValue.localeCompare(bValue) * modifier;
+      });
+
+  const handleReorder = async (reordered: Employee[]) => {
+    setPendingOrder(reordered);
+
+    try {
+      const { error } = await supabase.rpc('reorder_employees', {
+        p_ids: reordered.map((e) => e.id),
+      });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error reordering employees:', error);
+      toast.error('Failed to save the new order');
+      setPendingOrder(null);
+    }
+  };
+
+  const groups = groupByDepartment(sortedEmployees, departments);
+  const showGroups = hasDepartmentGroups(groups);
+
+  // Reorder in the order rows are shown, so the saved order matches the sections
+  const canReorder = isAdmin && sortField === 'custom';
+  const { draggingId, overId, getDragProps } = useDragReorder(
+    groups.flatMap((group) => group.employees),
+    handleReorder
+  );
+
+  const canSelect = isAdmin && !!onSelectionChange;
+  const allSelected = employees.length > 0 && employees.every((e) => selectedIds.includes(e.id));
+
+  const toggleSelected = (employeeId: string) => {
+    onSelectionChange?.(
+      selectedIds.includes(employeeId)
+        ? selectedIds.filter((id) => id !== employeeId)
+        : [...selectedIds, employeeId]
+    );
+  };
 
   return (
     <Table>
       <TableHeader>
         <TableRow>
-          <TableHead className="w-auto"></TableHead>
+          {canSelect && (
+            <TableHead className="w-auto p-2">
+              <Checkbox
+                checked={allSelected ? true : selectedIds.length > 0 ? 'indeterminate' : false}
+                onCheckedChange={() => onSelectionChange?.(allSelected ? [] : employees.map((e) => e.id))}
+                aria-label="Select everyone"
+              />
+            </TableHead>
+          )}
+          <TableHead className="w-auto p-2">
+            <button
+              onClick={() => setSortField('custom')}
+              className={cn(
+                'flex items-center hover:text-foreground transition-colors',
+                sortField === 'custom' && 'text-foreground'
+              )}
+              aria-label="Custom order"
+              title="Custom order"
+            >
+              <ListOrdered className="h-4 w-4" />
+            </button>
+          </TableHead>
           <TableHead 
             className="w-auto cursor-pointer hover:text-foreground transition-colors"
             onClick={() => handleSort('name')}
@@ -150,80 +242,139 @@ const EmployeeTable = ({ employees, onEmployeeUpdate }: EmployeeTableProps) => {
         </TableRow>
       </TableHeader>
       <TableBody>
-        {sortedEmployees.map((employee) => (
-          <TableRow
-            key={employee.id}
-            className="border-border hover:border-primary/50"
-          >
-            <TableCell className="w-auto p-2">
-              <Avatar
-                className="h-10 w-10 cursor-pointer"
-                onClick={() => navigate(`/employee/${employee.id}`)}
-              >
-                <AvatarImage src={employee.image_url || undefined} />
-                <AvatarFallback className="text-sm">
-                  {getInitials(employee.name)}
-                </AvatarFallback>
-              </Avatar>
-            </TableCell>
-            
-            <TableCell className="w-auto p-2">
-              <button
-                onClick={() => navigate(`/employee/${employee.id}`)}
-                className="text-left font-medium text-foreground hover:text-primary transition-colors whitespace-nowrap"
+        {groups.map((group) => (
+          <Fragment key={group.department?.id || 'none'}>
+            {showGroups && (
+              <TableRow className="hover:bg-transparent">
+                <TableCell colSpan={canSelect ? 4 : 3} className="px-2 pt-4 pb-1 text-sm font-semibold text-muted-foreground">
+                  {group.department?.name || 'No department'}
+                </TableCell>
+              </TableRow>
+            )}
+            {group.employees.map((employee) => (
+              <TableRow
+                key={employee.id}
+                className={cn(
+                  'border-border hover:border-primary/50',
+                  selectedIds.includes(employee.id) && 'bg-primary/5',
+                  draggingId === employee.id && 'opacity-50',
+                  overId === employee.id && draggingId !== employee.id && 'border-t-2 border-t-primary'
+                )}
+                {...getDragProps(employee.id, canReorder)}
               >
-                {employee.name}
-              </button>
-            </TableCell>
-            
-            <TableCell className="w-full p-2">
-              {editingId === employee.id ? (
-                <div className="flex gap-2">
-                  {showCustomInput ? (
-                    <Input
-                      value={editValue}
-                      onChange={(e) => setEditValue(e.target.value)}
-                      onBlur={() => handleSaveStatus(employee.id)}
-                      onKeyDown={(e) => handleKeyDown(e, employee.id)}
-                      autoFocus
-                      className="h-8 flex-1"
-                      placeholder="Enter custom status"
+                {canSelect && (
+                  <TableCell className="w-auto p-2">
+                    <Checkbox
+                      checked={selectedIds.includes(employee.id)}
+                      onCheckedChange={() => toggleSelected(employee.id)}
+                      aria-label={`Select ${employee.name}`}
                     />
-                  ) : (
-                    <Select
-                      value={predefinedStatuses.includes(editValue) ? editValue : '__placeholder__'}
-                      onValueChange={(value) => handleSelectChange(value, employee.id)}
+                  </TableCell>
+                )}
+                <TableCell className="w-auto p-2">
+                  <div className="flex items-center gap-1">
+                    {canReorder && <GripVertical className="h-4 w-4 text-muted-foreground cursor-grab" />}
+                    <Avatar
+                      className="h-10 w-10 cursor-pointer"
+                      onClick={() => navigate(`/employee/${employee.id}`)}
                     >
-                      <SelectTrigger className="h-8 flex-1">
-                        <SelectValue placeholder={!predefinedStatuses.includes(editValue) ? editValue : 'Select status'} />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {predefinedStatuses.map((status) => (
-                          <SelectItem key={status} value={status}>
-                            {status}
-                          </SelectItem>
-                        ))}
-                        <SelectItem value="__custom__">Custom...</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  )}
+                      <AvatarImage src={employee.image_url || undefined} />
+                      <AvatarFallback className="text-sm">
+                        {getInitials(employee.name)}
+                      </AvatarFallback>
+                    </Avatar>
+                  </div>
+                </TableCell>
+                
+                <TableCell className="w-auto p-2">
                   <button
-                    onClick={() => setShowCustomInput(!showCustomInput)}
-                    className="text-xs px-2 py-1 h-8 rounded bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                    onClick={() => navigate(`/employee/${employee.id}`)}
+                    className="text-left font-medium text-foreground hover:text-primary transition-colors whitespace-nowrap"
                   >
-                    {showCustomInput ? '☰' : '✎'}
+                    {employee.name}
                   </button>
-                </div>
-              ) : (
-                <button
-                  onClick={() => handleStartEdit(employee)}
-                  className="text-left text-muted-foreground hover:text-foreground transition-colors px-3 py-1 rounded hover:bg-accent w-full text-left"
-                >
-                  {employee.status}
-                </button>
-              )}
-            </TableCell>
-          </TableRow>
+                </TableCell>
+                
+                <TableCell className="w-full p-2">
+                  {editingId === employee.id ? (
+                    <div className="space-y-2">
+                      <StatusExpirySelect value={editExpiry} onChange={setEditExpiry} />
+                      <div className="flex gap-2">
+                        {showCustomInput ? (
+                          <Input
+                            value={editValue}
+                            onChange={(e) => setEditValue(e.target.value)}
+                            onBlur={() => handleSaveStatus(employee.id)}
+                            onKeyDown={(e) => handleKeyDown(e, employee.id)}
+                            autoFocus
+                            className="h-8 flex-1"
+                            placeholder="Enter custom status"
+                          />
+                        ) : (
+                          <Select
+                            value={predefinedStatuses.includes(editValue) ? editValue : '__placeholder__'}
+                            onValueChange={(value) => handleSelectChange(value, employee.id)}
+                          >
+                            <SelectTrigger className="h-8 flex-1">
+                              <SelectValue placeholder={!predefinedStatuses.includes(editValue) ? editValue : 'Select status'} />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {predefinedStatuses.map((status) => (
+                                <SelectItem key={status} value={status}>
+                                  <StatusBadge status={status} meta={getStatusMeta(status)} />
+                                </SelectItem>
+                              ))}
+                              <SelectItem value="__custom__">Custom...</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        )}
+                        <button
+                          onClick={() => setShowCustomInput(!showCustomInput)}
+                          className="text-xs px-2 py-1 h-8 rounded bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                        >
+                          {showCustomInput ? '☰' : '✎'}
+                        </button>
+                        <Popover open={detailsOpen} onOpenChange={setDetailsOpen}>
+                          <PopoverTrigger asChild>
+                            <button
+                              className="px-2 py-1 h-8 rounded bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                              aria-label="Status details"
+                            >
+                              <MessageSquare className="h-4 w-4" />
+                            </button>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-80" align="end">
+                            <StatusDetailsForm employeeId={employee.id} details={employee} onSaved={handleDetailsSaved} />
+                          </PopoverContent>
+                        </Popover>
+                      </div>
+                    </div>
+                  ) : canEditEmployee(employee.id) ? (
+                    <button
+                      onClick={() => handleStartEdit(employee)}
+                      className="flex items-center gap-2 text-left transition-colors px-3 py-1 rounded hover:bg-accent w-full"
+                    >
+                      <StatusBadge status={employee.status} meta={getStatusMeta(employee.status)} />
+                      {employee.status_expires_at && <StatusTimeLeft expiresAt={employee.status_expires_at} />}
+                      <StatusDetailsTooltip details={employee} />
+                      {employee.next_status && employee.next_status_change_at && employee.next_status !== employee.status && (
+                        <UpcomingStatus status={employee.next_status} at={employee.next_status_change_at} />
+                      )}
+                    </button>
+                  ) : (
+                    <span className="flex items-center gap-2 px-3 py-1">
+                      <StatusBadge status={employee.status} meta={getStatusMeta(employee.status)} />
+                      {employee.status_expires_at && <StatusTimeLeft expiresAt={employee.status_expires_at} />}
+                      <StatusDetailsTooltip details={employee} />
+                      {employee.next_status && employee.next_status_change_at && employee.next_status !== employee.status && (
+                        <UpcomingStatus status={employee.next_status} at={employee.next_status_change_at} />
+                      )}
+                    </span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </Fragment>
         ))}
       </TableBody>
     </Table>
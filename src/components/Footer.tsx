@@ -1,6 +1,5 @@
 import { LogOut } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { AdminModeToggle } from '@/components/AdminModeToggle';
 import { DailyMessageToggle } from '@/components/DailyMessageToggle';
 
 interface FooterProps {
@@ -14,7 +13,6 @@ export const Footer = ({ onLogout }: FooterProps) => {
         <div className="flex flex-col items-center gap-3">
           <div className="flex items-center gap-4">
             <DailyMessageToggle />
-            <AdminModeToggle />
             <Button variant="ghost" size="icon" onClick={onLogout} aria-label="Sign Out">
               <LogOut className="h-4 w-4" />
             </Button>
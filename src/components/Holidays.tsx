@@ -0,0 +1,302 @@
+import { useState, useEffect } from 'react';
+import { format, getYear, parseISO } from 'date-fns';
+import { Calendar as CalendarIcon, Download, Loader2, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePredefinedStatuses } from '@/hooks/use-predefined-statuses';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { StatusInput } from '@/components/StatusInput';
+import { HOLIDAY_PRESETS, Holiday, getPresetHolidays } from '@/lib/holidays';
+import { getTodayDateInTimeZone, getTodayInTimeZone } from '@/lib/dates';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+interface HolidaysProps {
+  tenantId: string;
+}
+
+export const Holidays = ({ tenantId }: HolidaysProps) => {
+  const { timeZone } = useAuth();
+  const { statuses } = usePredefinedStatuses();
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [holidayStatus, setHolidayStatus] = useState('');
+  const [savedHolidayStatus, setSavedHolidayStatus] = useState('');
+  const [isSavingStatus, setIsSavingStatus] = useState(false);
+  const [newDate, setNewDate] = useState<Date | undefined>(undefined);
+  const [newName, setNewName] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [presetCode, setPresetCode] = useState('');
+  const [presetYear, setPresetYear] = useState(() => String(getYear(getTodayDateInTimeZone(timeZone))));
+  const [isImporting, setIsImporting] = useState(false);
+
+  const thisYear = getYear(getTodayDateInTimeZone(timeZone));
+
+  useEffect(() => {
+    loadHolidays();
+    loadHolidayStatus();
+  }, [tenantId]);
+
+  // Past holidays no longer matter, so only upcoming ones are listed
+  const loadHolidays = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('holidays')
+        .select('id, date, name')
+        .eq('tenant_id', tenantId)
+        .gte('date', getTodayInTimeZone(timeZone))
+        .order('date');
+
+      if (error) throw error;
+
+      setHolidays(data || []);
+    } catch (error) {
+      console.error('Error loading holidays:', error);
+    }
+  };
+
+  const loadHolidayStatus = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('holiday_status')
+        .eq('id', tenantId)
+        .single();
+
+      if (error) throw error;
+
+      setHolidayStatus(data.holiday_status);
+      setSavedHolidayStatus(data.holiday_status);
+    } catch (error) {
+      console.error('Error loading holiday status:', error);
+    }
+  };
+
+  const handleSaveHolidayStatus = async () => {
+    const status = holidayStatus.trim();
+    if (!status) return;
+
+    setIsSavingStatus(true);
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ holiday_status: status })
+        .eq('id', tenantId);
+
+      if (error) throw error;
+
+      setSavedHolidayStatus(status);
+      toast.success('Holiday status updated');
+    } catch (error) {
+      console.error('Error updating holiday status:', error);
+      toast.error('Failed to update holiday status');
+    } finally {
+      setIsSavingStatus(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const name = newName.trim();
+    if (!newDate || !name) return;
+
+    const date = format(newDate, 'yyyy-MM-dd');
+    if (holidays.some((h) => h.date === date)) {
+      toast.error('There is already a holiday on this day');
+      return;
+    }
+
+    setIsAdding(true);
+    try {
+      const { error } = await supabase
+        .from('holidays')
+        .insert({ tenant_id: tenantId, date, name });
+
+      if (error) throw error;
+
+      setNewDate(undefined);
+      setNewName('');
+      toast.success('Holiday added');
+      loadHolidays();
+    } catch (error) {
+      console.error('Error adding holiday:', error);
+      toast.error('Failed to add holiday');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('holidays')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast.success('Holiday removed');
+      loadHolidays();
+    } catch (error) {
+      console.error('Error deleting holiday:', error);
+      toast.error('Failed to remove holiday');
+    }
+  };
+
+  // Days that already have a holiday keep it, so importing twice is harmless
+  const handleImportPreset = async () => {
+    const preset = HOLIDAY_PRESETS.find((p) => p.code === presetCode);
+    if (!preset) return;
+
+    setIsImporting(true);
+    try {
+      const { data, error } = await supabase
+        .from('holidays')
+        .upsert(
+          getPresetHolidays(preset, Number(presetYear)).map((h) => ({ tenant_id: tenantId, ...h })),
+          { onConflict: 'tenant_id,date', ignoreDuplicates: true }
+        )
+        .select('id');
+
+      if (error) throw error;
+
+      const added = data?.length || 0;
+      toast.success(added > 0 ? `Added ${added} ${added === 1 ? 'holiday' : 'holidays'}` : 'These holidays are already in the calendar');
+      loadHolidays();
+    } catch (error) {
+      console.error('Error importing holidays:', error);
+      toast.error('Failed to import holidays');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Holidays</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          On a holiday everyone gets the holiday status instead of their recurring status.
+          People with a scheduled status for the day keep that one.
+        </p>
+
+        <div className="space-y-2">
+          <Label>Holiday status</Label>
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <StatusInput value={holidayStatus} onChange={setHolidayStatus} statuses={statuses} />
+            </div>
+            <Button
+              onClick={handleSaveHolidayStatus}
+              disabled={isSavingStatus || !holidayStatus.trim() || holidayStatus.trim() === savedHolidayStatus}
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Import public holidays</Label>
+          <div className="flex flex-wrap gap-2">
+            <Select value={presetCode} onValueChange={setPresetCode}>
+              <SelectTrigger className="flex-1 min-w-48">
+                <SelectValue placeholder="Select country" />
+              </SelectTrigger>
+              <SelectContent>
+                {HOLIDAY_PRESETS.map((preset) => (
+                  <SelectItem key={preset.code} value={preset.code}>
+                    {preset.country}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={presetYear} onValueChange={setPresetYear}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[thisYear, thisYear + 1, thisYear + 2].map((year) => (
+                  <SelectItem key={year} value={String(year)}>
+                    {year}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleImportPreset} disabled={!presetCode || isImporting}>
+              {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+              Import
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Presets cover national holidays only. Add regional holidays and closure days below.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Add a holiday or closure day</Label>
+          <div className="flex gap-2">
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="outline"
+                  className={cn("w-40 justify-start text-left font-normal", !newDate && "text-muted-foreground")}
+                >
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {newDate ? format(newDate, 'MMM dd, yyyy') : 'Pick a date'}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={newDate}
+                  onSelect={setNewDate}
+                  disabled={(date) => date < getTodayDateInTimeZone(timeZone)}
+                  initialFocus
+                  className={cn("p-3 pointer-events-auto")}
+                />
+              </PopoverContent>
+            </Popover>
+            <Input
+              placeholder="Name, e.g. Summer closure"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+              maxLength={100}
+            />
+            <Button onClick={handleAdd} disabled={!newDate || !newName.trim() || isAdding}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        {holidays.length > 0 ? (
+          <div className="space-y-2">
+            {holidays.map((holiday) => (
+              <div key={holiday.id} className="flex items-center justify-between gap-2 rounded-lg border border-border p-2">
+                <div className="flex items-center gap-3">
+                  <span className="w-32 text-sm text-muted-foreground">
+                    {format(parseISO(holiday.date), 'EEE, MMM dd, yyyy')}
+                  </span>
+                  <span className="text-sm font-medium">{holiday.name}</span>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => handleDelete(holiday.id)} aria-label="Remove holiday">
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-center py-4 text-sm text-muted-foreground">
+            No upcoming holidays
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
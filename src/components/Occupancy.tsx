@@ -0,0 +1,55 @@
+import { format, isWeekend, parseISO } from 'date-fns';
+import { TriangleAlert } from 'lucide-react';
+import { OccupancyDay, formatDayList } from '@/lib/occupancy';
+import { cn } from '@/lib/utils';
+
+interface OccupancyForecastProps {
+  capacity: number | null;
+  occupancy: OccupancyDay[];
+}
+
+// One tile per day with how many people are expected in the office
+export const OccupancyForecast = ({ capacity, occupancy }: OccupancyForecastProps) => (
+  <div className="grid grid-cols-4 sm:grid-cols-7 gap-1">
+    {occupancy.map((o) => {
+      const count = o.employee_ids.length;
+      const full = capacity !== null && count >= capacity;
+
+      return (
+        <div
+          key={o.day}
+          className={cn(
+            'rounded-md border p-1.5 text-center',
+            isWeekend(parseISO(o.day)) && 'bg-muted/50',
+            full && 'border-destructive/50 bg-destructive/10'
+          )}
+        >
+          <div className="text-xs text-muted-foreground">{format(parseISO(o.day), 'EEE d')}</div>
+          <div className={cn('text-sm font-medium', capacity !== null && count > capacity && 'text-destructive')}>
+            {capacity !== null ? `${count}/${capacity}` : count}
+          </div>
+        </div>
+      );
+    })}
+  </div>
+);
+
+interface CapacityWarningProps {
+  days: string[];
+  capacity: number | null;
+}
+
+// Shown while filling in an entry that would put the office over capacity.
+// It doesn't stop the entry from being saved.
+export const CapacityWarning = ({ days, capacity }: CapacityWarningProps) => {
+  if (days.length === 0 || !capacity) return null;
+
+  return (
+    <p className="flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-2 text-sm text-destructive">
+      <TriangleAlert className="mt-0.5 h-4 w-4 shrink-0" />
+      <span>
+        The office is already full ({capacity} people) on {formatDayList(days)}.
+      </span>
+    </p>
+  );
+};
@@ -0,0 +1,92 @@
+import { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useOfficeOccupancy } from '@/hooks/use-office-occupancy';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { OccupancyForecast } from '@/components/Occupancy';
+import { toast } from 'sonner';
+
+interface OfficeCapacityProps {
+  tenantId: string;
+}
+
+export const OfficeCapacity = ({ tenantId }: OfficeCapacityProps) => {
+  const { capacity, occupancy, reload } = useOfficeOccupancy();
+  const [value, setValue] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setValue(capacity !== null ? String(capacity) : '');
+  }, [capacity]);
+
+  const handleSave = async () => {
+    const trimmed = value.trim();
+    const newCapacity = trimmed ? Number(trimmed) : null;
+
+    if (newCapacity !== null && (!Number.isInteger(newCapacity) || newCapacity < 1)) {
+      toast.error('The capacity must be a whole number of at least 1');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ office_capacity: newCapacity })
+        .eq('id', tenantId);
+
+      if (error) throw error;
+
+      toast.success(newCapacity ? 'Office capacity updated' : 'Office capacity removed');
+      reload();
+    } catch (error) {
+      console.error('Error updating office capacity:', error);
+      toast.error('Failed to update office capacity');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Office Capacity</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="officeCapacity">Desks per day</Label>
+          <div className="flex gap-2">
+            <Input
+              id="officeCapacity"
+              type="number"
+              min={1}
+              placeholder="No limit"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+            />
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || value.trim() === (capacity !== null ? String(capacity) : '')}
+            >
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save'}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            People with a status marked as in the office count towards it. Scheduling someone in on a full
+            day shows a warning, but is still allowed.
+          </p>
+        </div>
+
+        {occupancy.length > 0 && (
+          <div className="space-y-2">
+            <Label>Next four weeks</Label>
+            <OccupancyForecast capacity={capacity} occupancy={occupancy} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
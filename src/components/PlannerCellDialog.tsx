@@ -0,0 +1,207 @@
+import { useState, useEffect } from 'react';
+import { format, isWeekend, parseISO } from 'date-fns';
+import { Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { StatusBadge } from '@/components/StatusBadge';
+import { StatusInput } from '@/components/StatusInput';
+import { TimeRangeInput } from '@/components/TimeRangeInput';
+import { PredefinedStatus, findStatusMeta } from '@/lib/statuses';
+import { formatTimeRange, validateTimeRange } from '@/lib/time-range';
+import { toast } from 'sonner';
+
+export interface PlannerScheduledStatus {
+  id: string;
+  employee_id: string;
+  scheduled_date: string;
+  end_date: string;
+  status_text: string;
+  skip_weekends: boolean;
+  start_time: string | null;
+  end_time: string | null;
+}
+
+export interface PlannerCell {
+  employeeId: string;
+  employeeName: string;
+  day: Date;
+}
+
+interface PlannerCellDialogProps {
+  tenantId: string;
+  cell: PlannerCell | null;
+  scheduledStatuses: PlannerScheduledStatus[];
+  statuses: PredefinedStatus[];
+  onClose: () => void;
+  onChanged: (cell: PlannerCell) => void;
+}
+
+// Whether a scheduled entry covers the given day, leaving out weekends when it skips them
+const coversDay = (entry: PlannerScheduledStatus, day: Date) => {
+  const date = format(day, 'yyyy-MM-dd');
+  return (
+    date >= entry.scheduled_date &&
+    date <= entry.end_date &&
+    !(entry.skip_weekends && isWeekend(day))
+  );
+};
+
+const formatEntryDates = (entry: PlannerScheduledStatus) =>
+  entry.scheduled_date === entry.end_date
+    ? format(parseISO(entry.scheduled_date), 'MMM dd')
+    : `${format(parseISO(entry.scheduled_date), 'MMM dd')} - ${format(parseISO(entry.end_date), 'MMM dd')}`;
+
+// Lets admins add a one-day scheduled status for a planner cell, or remove the
+// scheduled entries covering it
+export const PlannerCellDialog = ({
+  tenantId,
+  cell,
+  scheduledStatuses,
+  statuses,
+  onClose,
+  onChanged,
+}: PlannerCellDialogProps) => {
+  const [newStatus, setNewStatus] = useState('');
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setNewStatus('');
+    setStartTime('');
+    setEndTime('');
+  }, [cell]);
+
+  const entries = cell
+    ? scheduledStatuses.filter((s) => s.employee_id === cell.employeeId && coversDay(s, cell.day))
+    : [];
+
+  const handleAdd = async () => {
+    if (!cell || !newStatus.trim()) return;
+
+    const timeError = validateTimeRange(startTime, endTime);
+    if (timeError) {
+      toast.error(timeError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const date = format(cell.day, 'yyyy-MM-dd');
+      const { error } = await supabase
+        .from('scheduled_statuses')
+        .insert({
+          employee_id: cell.employeeId,
+          tenant_id: tenantId,
+          scheduled_date: date,
+          end_date: date,
+          start_time: startTime || null,
+          end_time: endTime || null,
+          status_text: newStatus.trim(),
+        });
+
+      if (error) throw error;
+
+      toast.success('Scheduled status added');
+      onChanged(cell);
+      onClose();
+    } catch (error) {
+      console.error('Error adding scheduled status:', error);
+      toast.error('Failed to add scheduled status');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (entry: PlannerScheduledStatus) => {
+    if (!cell) return;
+
+    try {
+      const { error } = await supabase
+        .from('scheduled_statuses')
+        .delete()
+        .eq('id', entry.id);
+
+      if (error) throw error;
+
+      toast.success('Scheduled status removed');
+      onChanged(cell);
+    } catch (error) {
+      console.error('Error deleting scheduled status:', error);
+      toast.error('Failed to remove scheduled status');
+    }
+  };
+
+  return (
+    <Dialog open={!!cell} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{cell?.employeeName}</DialogTitle>
+          <DialogDescription>{cell && format(cell.day, 'EEEE, MMMM d, yyyy')}</DialogDescription>
+        </DialogHeader>
+
+        {entries.length > 0 && (
+          <div className="space-y-2">
+            <Label>Scheduled</Label>
+            {entries.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                <div className="flex min-w-0 flex-wrap items-center gap-2">
+                  <StatusBadge status={entry.status_text} meta={findStatusMeta(statuses, entry.status_text)} />
+                  <span className="text-sm text-muted-foreground">
+                    {formatEntryDates(entry)}
+                    {formatTimeRange(entry.start_time, entry.end_time) &&
+                      `, ${formatTimeRange(entry.start_time, entry.end_time)}`}
+                  </span>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(entry)}
+                  aria-label="Remove scheduled status"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {entries.some((entry) => entry.scheduled_date !== entry.end_date) && (
+              <p className="text-xs text-muted-foreground">
+                Removing an entry that spans several days removes all of its days.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Add for this day</Label>
+          <StatusInput value={newStatus} onChange={setNewStatus} statuses={statuses} />
+          <TimeRangeInput
+            start={startTime}
+            end={endTime}
+            onChange={(start, end) => {
+              setStartTime(start);
+              setEndTime(end);
+            }}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button onClick={handleAdd} disabled={isSaving || !newStatus.trim()}>
+            Add
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,435 @@
+import { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Calendar as CalendarIcon, GripVertical, Pencil, Trash2, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePredefinedStatuses } from '@/hooks/use-predefined-statuses';
+import { useDragReorder } from '@/hooks/use-drag-reorder';
+import { useOccupancy } from '@/hooks/use-office-occupancy';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { StatusBadge } from '@/components/StatusBadge';
+import { StatusInput } from '@/components/StatusInput';
+import { TimeRangeInput } from '@/components/TimeRangeInput';
+import { CapacityWarning } from '@/components/Occupancy';
+import {
+  MAX_INTERVAL_WEEKS,
+  RecurrenceFrequency,
+  RecurringRule,
+  WEEKDAY_NAMES,
+  WEEKDAY_ORDER,
+  WEEKS_OF_MONTH,
+  describeRecurrence,
+  recurrenceAppliesOn,
+} from '@/lib/recurrence';
+import { OccupancyDay, findOverbookedDays, getEntryPeriod } from '@/lib/occupancy';
+import { getTodayDateInTimeZone } from '@/lib/dates';
+import { toTimeInput, validateTimeRange } from '@/lib/time-range';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+interface RuleForm {
+  status_text: string;
+  frequency: RecurrenceFrequency;
+  day_of_week: number;
+  interval_weeks: number;
+  week_of_month: number;
+  starts_on: Date | undefined;
+  ends_on: Date | undefined;
+  start_time: string;
+  end_time: string;
+}
+
+const EMPTY_FORM: RuleForm = {
+  status_text: '',
+  frequency: 'weekly',
+  day_of_week: 1,
+  interval_weeks: 1,
+  week_of_month: 1,
+  starts_on: undefined,
+  ends_on: undefined,
+  start_time: '',
+  end_time: '',
+};
+
+interface RecurringRulesProps {
+  tenantId: string;
+  employeeId: string;
+  canEdit: boolean;
+  capacity: number | null;
+  // The forecast shown on the profile, which rules without dates are checked against
+  occupancy: OccupancyDay[];
+  // Called after any change, so today's status can be applied again
+  onChange: () => void;
+}
+
+export const RecurringRules = ({ tenantId, employeeId, canEdit, capacity, occupancy, onChange }: RecurringRulesProps) => {
+  const { timeZone } = useAuth();
+  const { statuses, getStatusMeta } = usePredefinedStatuses();
+  const [rules, setRules] = useState<RecurringRule[]>([]);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const countsOnSite = capacity !== null && !!getStatusMeta(form.status_text)?.counts_on_site;
+  // A rule with dates is checked for its own dates, which can go beyond the forecast
+  const { occupancy: ruleOccupancy, reload: reloadOccupancy } = useOccupancy(
+    countsOnSite && (form.starts_on || form.ends_on) ? getEntryPeriod(timeZone, form.starts_on, form.ends_on) : null
+  );
+
+  useEffect(() => {
+    loadRules();
+  }, [tenantId, employeeId]);
+
+  const loadRules = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('recurring_statuses')
+        .select('id, status_text, day_of_week, frequency, interval_weeks, week_of_month, starts_on, ends_on, start_time, end_time, sort_order')
+        .eq('employee_id', employeeId)
+        .eq('tenant_id', tenantId)
+        .order('sort_order')
+        .order('created_at');
+
+      if (error) throw error;
+
+      setRules(data || []);
+    } catch (error) {
+      console.error('Error loading recurring statuses:', error);
+    }
+  };
+
+  const handleEdit = (rule: RecurringRule) => {
+    setEditingId(rule.id);
+    setForm({
+      status_text: rule.status_text,
+      frequency: rule.frequency === 'monthly' ? 'monthly' : 'weekly',
+      day_of_week: rule.day_of_week,
+      interval_weeks: rule.interval_weeks,
+      week_of_month: rule.week_of_month ?? 1,
+      starts_on: rule.starts_on ? parseISO(rule.starts_on) : undefined,
+      ends_on: rule.ends_on ? parseISO(rule.ends_on) : undefined,
+      start_time: toTimeInput(rule.start_time),
+      end_time: toTimeInput(rule.end_time),
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSave = async () => {
+    const statusText = form.status_text.trim();
+    if (!statusText) {
+      toast.error('Please select a status');
+      return;
+    }
+
+    const monthly = form.frequency === 'monthly';
+    const intervalWeeks = monthly ? 1 : form.interval_weeks;
+
+    if (intervalWeeks > 1 && !form.starts_on) {
+      toast.error('Pick a start date to count the weeks from');
+      return;
+    }
+
+    if (form.starts_on && form.ends_on && form.ends_on < form.starts_on) {
+      toast.error('The end date must be on or after the start date');
+      return;
+    }
+
+    const timeError = validateTimeRange(form.start_time, form.end_time);
+    if (timeError) {
+      toast.error(timeError);
+      return;
+    }
+
+    const values = {
+      status_text: statusText,
+      frequency: form.frequency,
+      day_of_week: form.day_of_week,
+      interval_weeks: intervalWeeks,
+      week_of_month: monthly ? form.week_of_month : null,
+      starts_on: form.starts_on ? format(form.starts_on, 'yyyy-MM-dd') : null,
+      ends_on: form.ends_on ? format(form.ends_on, 'yyyy-MM-dd') : null,
+      start_time: form.start_time || null,
+      end_time: form.end_time || null,
+    };
+
+    setIsSaving(true);
+    try {
+      if (editingId) {
+        const { error } = await supabase
+          .from('recurring_statuses')
+          .update(values)
+          .eq('id', editingId);
+
+        if (error) throw error;
+      } else {
+        // New rules go last, so they don't override the existing ones
+        const { error } = await supabase
+          .from('recurring_statuses')
+          .insert({
+            ...values,
+            employee_id: employeeId,
+            tenant_id: tenantId,
+            sort_order: rules.length > 0 ? Math.max(...rules.map((r) => r.sort_order)) + 1 : 0,
+          });
+
+        if (error) throw error;
+      }
+
+      toast.success(editingId ? 'Recurring status updated' : 'Recurring status added');
+      resetForm();
+      loadRules();
+      onChange();
+      reloadOccupancy();
+    } catch (error) {
+      console.error('Error saving recurring status:', error);
+      toast.error('Failed to save recurring status');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Days the rule being edited falls on while the office is already full
+  const getOverbookedDays = () => {
+    if (!countsOnSite) return [];
+
+    const monthly = form.frequency === 'monthly';
+    const pattern = {
+      day_of_week: form.day_of_week,
+      frequency: form.frequency,
+      interval_weeks: monthly ? 1 : form.interval_weeks,
+      week_of_month: monthly ? form.week_of_month : null,
+      starts_on: form.starts_on ? format(form.starts_on, 'yyyy-MM-dd') : null,
+      ends_on: form.ends_on ? format(form.ends_on, 'yyyy-MM-dd') : null,
+      start_time: null,
+      end_time: null,
+    };
+    const checked = form.starts_on || form.ends_on ? ruleOccupancy : occupancy;
+    const days = checked.map((o) => o.day).filter((day) => recurrenceAppliesOn(pattern, parseISO(day)));
+
+    return findOverbookedDays(checked, capacity, employeeId, days);
+  };
+
+  const handleDelete = async (ruleId: string) => {
+    try {
+      const { error } = await supabase
+        .from('recurring_statuses')
+        .delete()
+        .eq('id', ruleId);
+
+      if (error) throw error;
+
+      if (editingId === ruleId) resetForm();
+      toast.success('Recurring status removed');
+      loadRules();
+      onChange();
+      reloadOccupancy();
+    } catch (error) {
+      console.error('Error deleting recurring status:', error);
+      toast.error('Failed to remove recurring status');
+    }
+  };
+
+  const handleReorder = async (reordered: RecurringRule[]) => {
+    setRules(reordered);
+
+    try {
+      const { error } = await supabase.rpc('reorder_recurring_statuses', {
+        p_ids: reordered.map((r) => r.id),
+      });
+
+      if (error) throw error;
+
+      onChange();
+      reloadOccupancy();
+    } catch (error) {
+      console.error('Error reordering recurring statuses:', error);
+      toast.error('Failed to save the new order');
+      loadRules();
+    }
+  };
+
+  const { draggingId, overId, getDragProps } = useDragReorder(rules, handleReorder);
+  const canReorder = canEdit && rules.length > 1;
+
+  const renderDatePicker = (field: 'starts_on' | 'ends_on', placeholder: string) => (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          className={cn("flex-1 justify-start text-left font-normal", !form[field] && "text-muted-foreground")}
+        >
+          <CalendarIcon className="mr-2 h-4 w-4" />
+          {form[field] ? format(form[field]!, 'MMM dd, yyyy') : placeholder}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="single"
+          selected={form[field]}
+          onSelect={(date) => setForm({ ...form, [field]: date })}
+          initialFocus
+          className={cn("p-3 pointer-events-auto")}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+
+  const weekdaySelect = (
+    <Select
+      value={String(form.day_of_week)}
+      onValueChange={(value) => setForm({ ...form, day_of_week: Number(value) })}
+    >
+      <SelectTrigger className="flex-1">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {WEEKDAY_ORDER.map((day) => (
+          <SelectItem key={day} value={String(day)}>
+            {WEEKDAY_NAMES[day]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-4">
+      {rules.length > 0 ? (
+        <div className="space-y-2">
+          {rules.map((rule) => (
+            <div
+              key={rule.id}
+              className={cn(
+                'flex items-center gap-2 p-2 rounded-lg border border-border',
+                editingId === rule.id && 'border-primary',
+                draggingId === rule.id && 'opacity-50',
+                overId === rule.id && draggingId !== rule.id && 'border-t-2 border-t-primary'
+              )}
+              {...getDragProps(rule.id, canReorder)}
+            >
+              {canReorder && <GripVertical className="h-4 w-4 shrink-0 text-muted-foreground cursor-grab" />}
+              <div className="flex-1 space-y-1">
+                <StatusBadge status={rule.status_text} meta={getStatusMeta(rule.status_text)} />
+                <p className="text-sm text-muted-foreground">{describeRecurrence(rule)}</p>
+              </div>
+              {canEdit && (
+                <>
+                  <Button variant="ghost" size="icon" onClick={() => handleEdit(rule)} aria-label="Edit recurring status">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(rule.id)} aria-label="Remove recurring status">
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          No recurring statuses
+        </p>
+      )}
+
+      {canEdit && (
+        <div className="space-y-3 rounded-lg border border-border p-3">
+          <div className="flex items-center justify-between">
+            <Label>{editingId ? 'Edit recurring status' : 'Add recurring status'}</Label>
+            {editingId && (
+              <Button variant="ghost" size="icon" onClick={resetForm} aria-label="Cancel editing">
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+
+          <StatusInput
+            key={editingId || `new-${rules.length}`}
+            value={form.status_text}
+            onChange={(value) => setForm({ ...form, status_text: value })}
+            statuses={statuses}
+          />
+
+          <div className="flex gap-2">
+            <Select
+              value={form.frequency === 'monthly' ? 'monthly' : String(form.interval_weeks)}
+              onValueChange={(value) =>
+                setForm(
+                  value === 'monthly'
+                    ? { ...form, frequency: 'monthly', interval_weeks: 1 }
+                    : {
+                        ...form,
+                        frequency: 'weekly',
+                        interval_weeks: Number(value),
+                        // Count the weeks from today unless a start date was chosen
+                        starts_on: Number(value) > 1 && !form.starts_on ? getTodayDateInTimeZone(timeZone) : form.starts_on,
+                      }
+                )
+              }
+            >
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: MAX_INTERVAL_WEEKS }, (_, i) => i + 1).map((weeks) => (
+                  <SelectItem key={weeks} value={String(weeks)}>
+                    {weeks === 1 ? 'Every week' : `Every ${weeks} weeks`}
+                  </SelectItem>
+                ))}
+                <SelectItem value="monthly">Monthly</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {form.frequency === 'monthly' && (
+              <Select
+                value={String(form.week_of_month)}
+                onValueChange={(value) => setForm({ ...form, week_of_month: Number(value) })}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEKS_OF_MONTH.map((week) => (
+                    <SelectItem key={week.value} value={String(week.value)}>
+                      {week.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {weekdaySelect}
+          </div>
+
+          <TimeRangeInput
+            start={form.start_time}
+            end={form.end_time}
+            onChange={(start, end) => setForm({ ...form, start_time: start, end_time: end })}
+          />
+
+          <div className="flex gap-2">
+            {renderDatePicker('starts_on', form.interval_weeks > 1 ? 'Start date' : 'No start date')}
+            {renderDatePicker('ends_on', 'No end date')}
+          </div>
+          {form.frequency === 'weekly' && form.interval_weeks > 1 && (
+            <p className="text-xs text-muted-foreground">
+              The weeks are counted from the week of the start date.
+            </p>
+          )}
+
+          <CapacityWarning days={getOverbookedDays()} capacity={capacity} />
+
+          <Button onClick={handleSave} disabled={isSaving || !form.status_text.trim()} className="w-full">
+            {editingId ? 'Save Changes' : 'Add Recurring Status'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
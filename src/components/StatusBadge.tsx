@@ -0,0 +1,29 @@
+import { HTMLAttributes } from 'react';
+import { PredefinedStatus, STATUS_ICONS } from '@/lib/statuses';
+import { cn } from '@/lib/utils';
+
+interface StatusBadgeProps extends HTMLAttributes<HTMLSpanElement> {
+  status: string | null;
+  meta?: PredefinedStatus;
+}
+
+// Custom statuses without a predefined match are shown in a neutral style
+export const StatusBadge = ({ status, meta, className, style, ...props }: StatusBadgeProps) => {
+  const Icon = meta?.icon ? STATUS_ICONS[meta.icon] : undefined;
+  const color = meta?.color;
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1.5 rounded-full border px-2.5 py-0.5 text-sm font-medium max-w-full',
+        !color && 'border-border bg-secondary text-secondary-foreground',
+        className
+      )}
+      style={color ? { backgroundColor: `${color}26`, borderColor: `${color}80`, color, ...style } : style}
+      {...props}
+    >
+      {Icon && <Icon className="h-[1em] w-[1em] shrink-0" />}
+      <span className="truncate">{status || '—'}</span>
+    </span>
+  );
+};
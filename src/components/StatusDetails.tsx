@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { Info } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import {
+  MAX_STATUS_CONTACT_LENGTH,
+  MAX_STATUS_NOTE_LENGTH,
+  StatusDetails,
+  formatReturnAt,
+  fromReturnInput,
+  hasStatusDetails,
+  toReturnInput,
+} from '@/lib/status-details';
+import { toast } from 'sonner';
+
+interface StatusDetailsFormProps {
+  employeeId: string;
+  details: StatusDetails;
+  onSaved: () => void;
+}
+
+export const StatusDetailsForm = ({ employeeId, details, onSaved }: StatusDetailsFormProps) => {
+  const { timeZone } = useAuth();
+  const [note, setNote] = useState(details.status_note || '');
+  const [returnAt, setReturnAt] = useState(toReturnInput(details.status_return_at, timeZone));
+  const [contact, setContact] = useState(details.status_contact || '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const saveDetails = async (values: StatusDetails, message: string) => {
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('employees')
+        .update(values)
+        .eq('id', employeeId);
+
+      if (error) throw error;
+
+      toast.success(message);
+      onSaved();
+    } catch (error) {
+      console.error('Error updating status details:', error);
+      toast.error('Failed to update status details');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () =>
+    saveDetails(
+      {
+        status_note: note.trim() || null,
+        status_return_at: fromReturnInput(returnAt, timeZone),
+        status_contact: contact.trim() || null,
+      },
+      'Status details saved'
+    );
+
+  const handleClear = () => {
+    setNote('');
+    setReturnAt('');
+    setContact('');
+    saveDetails({ status_note: null, status_return_at: null, status_contact: null }, 'Status details cleared');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <Label htmlFor={`status-note-${employeeId}`}>Note</Label>
+        <Input
+          id={`status-note-${employeeId}`}
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="e.g. At a customer in Bergen"
+          maxLength={MAX_STATUS_NOTE_LENGTH}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`status-return-${employeeId}`}>Expected back</Label>
+        <Input
+          id={`status-return-${employeeId}`}
+          type="datetime-local"
+          value={returnAt}
+          onChange={(e) => setReturnAt(e.target.value)}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`status-contact-${employeeId}`}>Contact while away</Label>
+        <Input
+          id={`status-contact-${employeeId}`}
+          value={contact}
+          onChange={(e) => setContact(e.target.value)}
+          placeholder="e.g. Call Per on 555 1234"
+          maxLength={MAX_STATUS_CONTACT_LENGTH}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        These are cleared when the status changes.
+      </p>
+      <div className="flex gap-2">
+        <Button onClick={handleSave} disabled={isSaving} className="flex-1">
+          Save
+        </Button>
+        <Button variant="outline" onClick={handleClear} disabled={isSaving || !hasStatusDetails(details)}>
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+interface StatusDetailsTooltipProps {
+  details: StatusDetails;
+}
+
+// An info icon on the board that shows the details on hover
+export const StatusDetailsTooltip = ({ details }: StatusDetailsTooltipProps) => {
+  const { timeZone } = useAuth();
+
+  if (!hasStatusDetails(details)) return null;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className="inline-flex text-muted-foreground" aria-label="Status details">
+          <Info className="h-4 w-4" />
+        </span>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs space-y-1">
+        {details.status_note && <p>{details.status_note}</p>}
+        {details.status_return_at && <p>Back {formatReturnAt(details.status_return_at, timeZone)}</p>}
+        {details.status_contact && <p>Contact: {details.status_contact}</p>}
+      </TooltipContent>
+    </Tooltip>
+  );
+};
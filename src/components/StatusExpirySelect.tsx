@@ -0,0 +1,59 @@
+import { addHours } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { useAuth } from '@/contexts/AuthContext';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { STATUS_EXPIRY_PRESETS, isExpiryTime } from '@/lib/status-expiry';
+
+const UNTIL_CHANGED = '__none__';
+const UNTIL_TIME = '__time__';
+
+interface StatusExpirySelectProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// How long the next status lasts; see getStatusExpiresAt for the values
+export const StatusExpirySelect = ({ value, onChange }: StatusExpirySelectProps) => {
+  const { timeZone } = useAuth();
+  const isTime = isExpiryTime(value);
+
+  const handleSelect = (choice: string) => {
+    if (choice === UNTIL_CHANGED) {
+      onChange('');
+    } else if (choice === UNTIL_TIME) {
+      // Start from the next full hour
+      onChange(formatInTimeZone(addHours(new Date(), 1), timeZone, 'HH:00'));
+    } else {
+      onChange(choice);
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Select value={isTime ? UNTIL_TIME : value || UNTIL_CHANGED} onValueChange={handleSelect}>
+        <SelectTrigger className="h-8 flex-1">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={UNTIL_CHANGED}>Until changed</SelectItem>
+          {STATUS_EXPIRY_PRESETS.map((preset) => (
+            <SelectItem key={preset.value} value={preset.value}>
+              {preset.label}
+            </SelectItem>
+          ))}
+          <SelectItem value={UNTIL_TIME}>Until a time...</SelectItem>
+        </SelectContent>
+      </Select>
+      {isTime && (
+        <Input
+          type="time"
+          value={value}
+          onChange={(e) => e.target.value && onChange(e.target.value)}
+          className="h-8 w-28"
+          aria-label="Until"
+        />
+      )}
+    </div>
+  );
+};
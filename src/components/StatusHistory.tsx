@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react';
+import { DateRange } from 'react-day-picker';
+import { format } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { ArrowRight, Calendar as CalendarIcon, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePredefinedStatuses } from '@/hooks/use-predefined-statuses';
+import { StatusBadge } from '@/components/StatusBadge';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { endOfDayInTimeZone, getTodayDateInTimeZone, startOfDayInTimeZone } from '@/lib/dates';
+
+interface StatusHistoryEntry {
+  id: string;
+  old_status: string | null;
+  new_status: string | null;
+  source: string;
+  changed_by: string | null;
+  changed_at: string;
+}
+
+interface StatusHistoryProps {
+  employeeId: string;
+}
+
+const HISTORY_LIMIT = 100;
+
+export const StatusHistory = ({ employeeId }: StatusHistoryProps) => {
+  const { user, timeZone } = useAuth();
+  const { getStatusMeta } = usePredefinedStatuses();
+  const [entries, setEntries] = useState<StatusHistoryEntry[]>([]);
+  const [dateRange, setDateRange] = useState<DateRange | undefined>(undefined);
+
+  useEffect(() => {
+    loadHistory();
+  }, [employeeId, dateRange, timeZone]);
+
+  const loadHistory = async () => {
+    try {
+      let query = supabase
+        .from('status_history')
+        .select('*')
+        .eq('employee_id', employeeId)
+        .order('changed_at', { ascending: false })
+        .limit(HISTORY_LIMIT);
+
+      // Calendar days are interpreted in the tenant's time zone
+      if (dateRange?.from) {
+        query = query
+          .gte('changed_at', startOfDayInTimeZone(dateRange.from, timeZone).toISOString())
+          .lt('changed_at', endOfDayInTimeZone(dateRange.to || dateRange.from, timeZone).toISOString());
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      setEntries(data || []);
+    } catch (error) {
+      console.error('Error loading status history:', error);
+    }
+  };
+
+  const getActorLabel = (entry: StatusHistoryEntry) => {
+    if (!entry.changed_by) return 'System';
+    return entry.changed_by === user?.id ? 'You' : 'Another user';
+  };
+
+  const rangeLabel = dateRange?.from
+    ? dateRange.to
+      ? `${format(dateRange.from, 'MMM dd, yyyy')} - ${format(dateRange.to, 'MMM dd, yyyy')}`
+      : format(dateRange.from, 'MMM dd, yyyy')
+    : 'All dates';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Status History</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                variant="outline"
+                className={cn(
+                  "flex-1 justify-start text-left font-normal",
+                  !dateRange?.from && "text-muted-foreground"
+                )}
+              >
+                <CalendarIcon className="mr-2 h-4 w-4" />
+                {rangeLabel}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="range"
+                selected={dateRange}
+                onSelect={setDateRange}
+                disabled={(date) => date > getTodayDateInTimeZone(timeZone)}
+                initialFocus
+                className={cn("p-3 pointer-events-auto")}
+              />
+            </PopoverContent>
+          </Popover>
+          {dateRange?.from && (
+            <Button variant="ghost" size="icon" onClick={() => setDateRange(undefined)}>
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+
+        {entries.length > 0 ? (
+          <div className="relative space-y-4 border-l border-border pl-4 ml-2">
+            {entries.map((entry) => (
+              <div key={entry.id} className="relative">
+                <div className="absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+                <div className="flex flex-wrap items-center gap-2">
+                  <StatusBadge
+                    status={entry.old_status}
+                    meta={getStatusMeta(entry.old_status)}
+                    className="opacity-60"
+                  />
+                  <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                  <StatusBadge status={entry.new_status} meta={getStatusMeta(entry.new_status)} />
+                  <Badge variant={entry.source === 'manual' ? 'outline' : 'secondary'} className="capitalize">
+                    {entry.source}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {formatInTimeZone(entry.changed_at, timeZone, 'MMM dd, yyyy HH:mm')} · {getActorLabel(entry)}
+                </p>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No status changes{dateRange?.from ? ' in this period' : ''}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
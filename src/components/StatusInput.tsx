@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { StatusBadge } from '@/components/StatusBadge';
+import { PredefinedStatus } from '@/lib/statuses';
+
+const CUSTOM_STATUS = '__custom__';
+const NO_STATUS = '__none__';
+
+interface StatusInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  statuses: PredefinedStatus[];
+  // Offers a "No status" choice, stored as an empty value
+  allowEmpty?: boolean;
+}
+
+// A predefined status from the list, or any text after choosing "Custom..."
+export const StatusInput = ({ value, onChange, statuses, allowEmpty = false }: StatusInputProps) => {
+  const statusTexts = statuses.map((s) => s.status_text);
+  const [isCustom, setIsCustom] = useState(!!value && !statusTexts.includes(value));
+
+  if (isCustom) {
+    return (
+      <div className="flex gap-2">
+        <Input
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="Enter custom status"
+          className="flex-1"
+          autoFocus
+        />
+        <Button variant="secondary" size="icon" onClick={() => setIsCustom(false)} aria-label="Choose from list">
+          ☰
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Select
+      value={statusTexts.includes(value) ? value : allowEmpty && !value ? NO_STATUS : undefined}
+      onValueChange={(selected) => {
+        if (selected === CUSTOM_STATUS) {
+          setIsCustom(true);
+          onChange('');
+        } else {
+          onChange(selected === NO_STATUS ? '' : selected);
+        }
+      }}
+    >
+      <SelectTrigger>
+        <SelectValue placeholder={value && !statusTexts.includes(value) ? value : 'Select status'} />
+      </SelectTrigger>
+      <SelectContent>
+        {allowEmpty && <SelectItem value={NO_STATUS}>No status</SelectItem>}
+        {statuses.map((s) => (
+          <SelectItem key={s.id} value={s.status_text}>
+            <StatusBadge status={s.status_text} meta={s} />
+          </SelectItem>
+        ))}
+        <SelectItem value={CUSTOM_STATUS}>Custom...</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+};
@@ -0,0 +1,42 @@
+import { PredefinedStatus, STATUS_CATEGORIES, findStatusMeta } from '@/lib/statuses';
+
+interface Employee {
+  id: string;
+  status: string;
+}
+
+interface StatusSummaryProps {
+  employees: Employee[];
+  statuses: PredefinedStatus[];
+}
+
+export const StatusSummary = ({ employees, statuses }: StatusSummaryProps) => {
+  const counts = { present: 0, away: 0, unavailable: 0, other: 0 };
+
+  employees.forEach((employee) => {
+    const meta = findStatusMeta(statuses, employee.status);
+    counts[meta ? meta.category : 'other']++;
+  });
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {STATUS_CATEGORIES.map((category) => (
+        <div
+          key={category.value}
+          className="flex items-center gap-2 rounded-lg border border-border bg-card px-3 py-1.5 text-sm"
+        >
+          <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: category.color }} />
+          <span className="text-muted-foreground">{category.label}</span>
+          <span className="font-semibold text-foreground">{counts[category.value]}</span>
+        </div>
+      ))}
+      {counts.other > 0 && (
+        <div className="flex items-center gap-2 rounded-lg border border-border bg-card px-3 py-1.5 text-sm">
+          <span className="h-2.5 w-2.5 rounded-full bg-muted-foreground" />
+          <span className="text-muted-foreground">Other</span>
+          <span className="font-semibold text-foreground">{counts.other}</span>
+        </div>
+      )}
+    </div>
+  );
+};
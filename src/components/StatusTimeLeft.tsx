@@ -0,0 +1,32 @@
+import { useState, useEffect } from 'react';
+import { formatInTimeZone } from 'date-fns-tz';
+import { Clock } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { formatTimeLeft } from '@/lib/status-expiry';
+
+interface StatusTimeLeftProps {
+  expiresAt: string;
+}
+
+// Counts down to when a temporary status reverts
+export const StatusTimeLeft = ({ expiresAt }: StatusTimeLeftProps) => {
+  const { timeZone } = useAuth();
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const expires = new Date(expiresAt);
+
+  return (
+    <span
+      className="inline-flex items-center gap-1 text-xs text-muted-foreground whitespace-nowrap"
+      title={`Until ${formatInTimeZone(expires, timeZone, 'HH:mm')}`}
+    >
+      <Clock className="h-3 w-3" />
+      {formatTimeLeft(expires, now)}
+    </span>
+  );
+};
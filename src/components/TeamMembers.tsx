@@ -0,0 +1,291 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Mail, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth, TenantRole } from '@/contexts/AuthContext';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+
+interface TeamMember {
+  id: string;
+  email: string;
+  employee_id: string | null;
+  role: string;
+  user_id: string | null;
+}
+
+interface EmployeeOption {
+  id: string;
+  name: string;
+}
+
+const ROLE_LABELS: Record<TenantRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+  viewer: 'Viewer',
+};
+
+const NO_PERSON = '__none__';
+
+interface TeamMembersProps {
+  tenantId: string;
+}
+
+export const TeamMembers = ({ tenantId }: TeamMembersProps) => {
+  const { user } = useAuth();
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [employees, setEmployees] = useState<EmployeeOption[]>([]);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteEmployeeId, setInviteEmployeeId] = useState('');
+  const [inviteRole, setInviteRole] = useState<TenantRole>('member');
+  const [isInviting, setIsInviting] = useState(false);
+
+  useEffect(() => {
+    loadMembers();
+  }, [tenantId]);
+
+  const loadMembers = async () => {
+    try {
+      const [membersResult, employeesResult] = await Promise.all([
+        supabase
+          .from('tenant_members')
+          .select('id, email, employee_id, role, user_id')
+          .eq('tenant_id', tenantId)
+          .order('created_at'),
+        supabase
+          .from('employees')
+          .select('id, name')
+          .eq('tenant_id', tenantId)
+          .order('name'),
+      ]);
+
+      if (membersResult.error) throw membersResult.error;
+      if (employeesResult.error) throw employeesResult.error;
+
+      setMembers(membersResult.data || []);
+      setEmployees(employeesResult.data || []);
+    } catch (error) {
+      console.error('Error loading members:', error);
+    }
+  };
+
+  const handleInvite = async () => {
+    const email = inviteEmail.trim();
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+    if (!emailRegex.test(email)) {
+      toast.error('Invalid email address');
+      return;
+    }
+
+    // Admins and viewers don't have to be on the board, members edit their own row
+    if (inviteRole === 'member' && !inviteEmployeeId) {
+      toast.error('Please choose the person this account belongs to');
+      return;
+    }
+
+    setIsInviting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('invite-member', {
+        body: {
+          email,
+          employeeId: inviteEmployeeId || null,
+          role: inviteRole,
+          redirectTo: `${window.location.origin}/options`,
+        },
+      });
+
+      if (error) {
+        const body = await error.context?.json?.().catch(() => null);
+        throw new Error(body?.error || error.message);
+      }
+      if (data?.error) throw new Error(data.error);
+
+      toast.success(`Invitation sent to ${email}`);
+      setInviteEmail('');
+      setInviteEmployeeId('');
+      setInviteRole('member');
+      loadMembers();
+    } catch (error) {
+      console.error('Error inviting member:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to invite member');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (memberId: string, role: TenantRole) => {
+    try {
+      const { error } = await supabase
+        .from('tenant_members')
+        .update({ role })
+        .eq('id', memberId);
+
+      if (error) throw error;
+
+      setMembers(members.map((m) => (m.id === memberId ? { ...m, role } : m)));
+      toast.success('Role updated');
+    } catch (error) {
+      console.error('Error updating role:', error);
+      toast.error(role === 'member' ? 'Members must be linked to a person' : 'Failed to update role');
+    }
+  };
+
+  const handleRemove = async (memberId: string) => {
+    try {
+      const { error } = await supabase
+        .from('tenant_members')
+        .delete()
+        .eq('id', memberId);
+
+      if (error) throw error;
+
+      setMembers(members.filter((m) => m.id !== memberId));
+      toast.success('Member removed');
+    } catch (error) {
+      console.error('Error removing member:', error);
+      toast.error('Failed to remove member');
+    }
+  };
+
+  const linkedEmployeeIds = new Set(members.map((m) => m.employee_id));
+  const availableEmployees = employees.filter((e) => !linkedEmployeeIds.has(e.id));
+  const getEmployeeName = (employeeId: string | null) =>
+    employees.find((e) => e.id === employeeId)?.name;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Team Members</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Admins manage people, statuses and settings. Members see the board and change only their own status and schedule.
+          Viewers can only look, which suits a shared office screen.
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="inviteEmail">Email</Label>
+            <Input
+              id="inviteEmail"
+              type="email"
+              placeholder="name@company.com"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              disabled={isInviting}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="inviteEmployee">Person</Label>
+            <Select
+              value={inviteEmployeeId || NO_PERSON}
+              onValueChange={(value) => setInviteEmployeeId(value === NO_PERSON ? '' : value)}
+              disabled={isInviting}
+            >
+              <SelectTrigger id="inviteEmployee">
+                <SelectValue placeholder="Select person" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PERSON}>Not on the board</SelectItem>
+                {availableEmployees.map((employee) => (
+                  <SelectItem key={employee.id} value={employee.id}>
+                    {employee.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="inviteRole">Role</Label>
+            <Select
+              value={inviteRole}
+              onValueChange={(value) => setInviteRole(value as TenantRole)}
+              disabled={isInviting}
+            >
+              <SelectTrigger id="inviteRole">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="admin">{ROLE_LABELS.admin}</SelectItem>
+                <SelectItem value="member">{ROLE_LABELS.member}</SelectItem>
+                <SelectItem value="viewer">{ROLE_LABELS.viewer}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <Button
+          onClick={handleInvite}
+          disabled={isInviting || !inviteEmail.trim() || (inviteRole === 'member' && !inviteEmployeeId)}
+          className="w-full"
+        >
+          {isInviting ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Sending...
+            </>
+          ) : (
+            <>
+              <Mail className="mr-2 h-4 w-4" />
+              Send Invitation
+            </>
+          )}
+        </Button>
+
+        {members.length > 0 ? (
+          <div className="space-y-2">
+            {members.map((member) => (
+              <div
+                key={member.id}
+                className="flex items-center justify-between p-3 bg-card rounded-lg border border-border"
+              >
+                <div className="min-w-0">
+                  <p className="text-foreground truncate">{getEmployeeName(member.employee_id) || member.email}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {member.email}
+                    {!member.user_id && ' · invitation pending'}
+                  </p>
+                </div>
+                {member.role === 'owner' || member.user_id === user?.id ? (
+                  <Badge variant="secondary">{ROLE_LABELS[member.role as TenantRole]}</Badge>
+                ) : (
+                  <div className="flex items-center gap-1">
+                    <Select
+                      value={member.role}
+                      onValueChange={(value) => handleRoleChange(member.id, value as TenantRole)}
+                    >
+                      <SelectTrigger className="w-28 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="admin">{ROLE_LABELS.admin}</SelectItem>
+                        <SelectItem value="member">{ROLE_LABELS.member}</SelectItem>
+                        <SelectItem value="viewer">{ROLE_LABELS.viewer}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRemove(member.id)}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-center py-4 text-sm text-muted-foreground">
+            No member accounts yet
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,156 @@
+import { useState, ChangeEvent } from 'react';
+import { Download, Loader2, Upload } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { getTodayInTimeZone } from '@/lib/dates';
+import { TenantArchive, buildTenantArchive, parseTenantArchive, restoreTenantArchive } from '@/lib/tenant-archive';
+import { toast } from 'sonner';
+
+interface TenantBackupProps {
+  tenantId: string;
+}
+
+export const TenantBackup = ({ tenantId }: TenantBackupProps) => {
+  const { timeZone } = useAuth();
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [pendingArchive, setPendingArchive] = useState<TenantArchive | null>(null);
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const archive = await buildTenantArchive(tenantId);
+      const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `inorout-backup-${getTodayInTimeZone(timeZone)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error building archive:', error);
+      toast.error('Failed to download data');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    let json: unknown;
+    try {
+      json = JSON.parse(await file.text());
+    } catch (error) {
+      console.error('Error reading archive:', error);
+      toast.error('This file is not a valid backup');
+      return;
+    }
+
+    const result = parseTenantArchive(json);
+    if ('error' in result) {
+      toast.error(`This file is not a valid backup (${result.error})`);
+      return;
+    }
+
+    setPendingArchive(result.archive);
+  };
+
+  const handleRestore = async () => {
+    if (!pendingArchive) return;
+
+    setIsRestoring(true);
+    try {
+      await restoreTenantArchive(tenantId, pendingArchive);
+      toast.success('Backup restored');
+      window.location.reload(); // Reload to update the context
+    } catch (error) {
+      console.error('Error restoring archive:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to restore backup');
+    } finally {
+      setIsRestoring(false);
+      setPendingArchive(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Backup</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Download everything in this account as a JSON file: company settings, departments, people, status choices,
+          schedules and the daily message. A backup can be restored into an account that has no people yet.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={handleDownload} disabled={isDownloading}>
+            {isDownloading ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
+            Download all data
+          </Button>
+          <input
+            type="file"
+            id="tenant-restore"
+            accept=".json,application/json"
+            onChange={handleFile}
+            className="hidden"
+          />
+          <Label htmlFor="tenant-restore">
+            <Button
+              variant="outline"
+              disabled={isRestoring}
+              onClick={() => document.getElementById('tenant-restore')?.click()}
+            >
+              {isRestoring ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="mr-2 h-4 w-4" />
+              )}
+              Restore from backup
+            </Button>
+          </Label>
+        </div>
+
+        <AlertDialog open={pendingArchive !== null} onOpenChange={(open) => !open && setPendingArchive(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Restore this backup?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {pendingArchive && (
+                  <>
+                    The backup of {pendingArchive.profile.company_name} has {pendingArchive.employees.length} people,{' '}
+                    {pendingArchive.departments.length} departments and{' '}
+                    {pendingArchive.scheduled_statuses.length + pendingArchive.recurring_statuses.length} scheduled and
+                    recurring statuses. Your company settings and status choices will be replaced.
+                  </>
+                )}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleRestore}>Restore</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardContent>
+    </Card>
+  );
+};
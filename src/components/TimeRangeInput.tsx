@@ -0,0 +1,37 @@
+import { Input } from '@/components/ui/input';
+
+interface TimeRangeInputProps {
+  start: string;
+  end: string;
+  onChange: (start: string, end: string) => void;
+}
+
+// Optional start and end time as HH:mm; leaving both empty means the whole day
+export const TimeRangeInput = ({ start, end, onChange }: TimeRangeInputProps) => (
+  <div className="flex items-center gap-2">
+    <Input
+      type="time"
+      value={start}
+      onChange={(e) => onChange(e.target.value, end)}
+      className="w-32"
+      aria-label="Start time"
+    />
+    <span className="text-sm text-muted-foreground">to</span>
+    <Input
+      type="time"
+      value={end}
+      onChange={(e) => onChange(start, e.target.value)}
+      className="w-32"
+      aria-label="End time"
+    />
+    {(start || end) && (
+      <button
+        type="button"
+        onClick={() => onChange('', '')}
+        className="text-sm text-muted-foreground hover:text-foreground"
+      >
+        Whole day
+      </button>
+    )}
+  </div>
+);
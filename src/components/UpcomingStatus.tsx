@@ -0,0 +1,23 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import { ArrowRight } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { getTodayInTimeZone } from '@/lib/dates';
+
+interface UpcomingStatusProps {
+  status: string;
+  at: string;
+}
+
+// The status a timed scheduled or recurring entry switches to next
+export const UpcomingStatus = ({ status, at }: UpcomingStatusProps) => {
+  const { timeZone } = useAuth();
+  // After an evening reset the next change can be tomorrow
+  const isToday = formatInTimeZone(at, timeZone, 'yyyy-MM-dd') === getTodayInTimeZone(timeZone);
+
+  return (
+    <span className="inline-flex items-center gap-1 text-xs text-muted-foreground whitespace-nowrap">
+      <ArrowRight className="h-3 w-3" />
+      {status} at {formatInTimeZone(at, timeZone, isToday ? 'HH:mm' : 'EEE HH:mm')}
+    </span>
+  );
+};
@@ -1,11 +1,21 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_TIME_ZONE } from '@/lib/dates';
+
+export type TenantRole = 'owner' | 'admin' | 'member' | 'viewer';
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
+  tenantId: string | null;
+  employeeId: string | null;
+  role: TenantRole | null;
+  isOwner: boolean;
+  isAdmin: boolean;
+  canEditEmployee: (employeeId: string) => boolean;
   companyName: string | null;
+  timeZone: string;
   loading: boolean;
   signOut: () => Promise<void>;
 }
@@ -15,7 +25,11 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
+  const [tenantId, setTenantId] = useState<string | null>(null);
+  const [employeeId, setEmployeeId] = useState<string | null>(null);
+  const [role, setRole] = useState<TenantRole | null>(null);
   const [companyName, setCompanyName] = useState<string | null>(null);
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIME_ZONE);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -25,24 +39,28 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         setSession(session);
         setUser(session?.user ?? null);
         
-        // Fetch company name when user is authenticated
+        // Fetch profile when user is authenticated
         if (session?.user) {
           setTimeout(() => {
-            fetchCompanyName(session.user.id);
+            fetchProfile(session.user.id);
           }, 0);
         } else {
+          setTenantId(null);
+          setEmployeeId(null);
+          setRole(null);
           setCompanyName(null);
+          setTimeZone(DEFAULT_TIME_ZONE);
         }
       }
     );
 
     // Check for existing session
-    supabase.auth.getSession().then(({ data: { session } }) => {
+    supabase.auth.getSession().then(async ({ data: { session } }) => {
       setSession(session);
       setUser(session?.user ?? null);
       
       if (session?.user) {
-        fetchCompanyName(session.user.id);
+        await fetchProfile(session.user.id);
       }
       setLoading(false);
     });
@@ -50,12 +68,24 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return () => subscription.unsubscribe();
   }, []);
 
-  const fetchCompanyName = async (userId: string) => {
+  const fetchProfile = async (userId: string) => {
     try {
+      // Every user has a membership row; its role is enforced by RLS on the server
+      const { data: membership } = await supabase
+        .from('tenant_members')
+        .select('tenant_id, employee_id, role')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      const resolvedTenantId = membership?.tenant_id || userId;
+      setTenantId(resolvedTenantId);
+      setEmployeeId(membership?.employee_id || null);
+      setRole((membership?.role as TenantRole) || null);
+
       const { data, error } = await supabase
         .from('profiles')
-        .select('company_name')
-        .eq('id', userId)
+        .select('company_name, time_zone')
+        .eq('id', resolvedTenantId)
         .single();
 
       if (error) {
@@ -66,21 +96,45 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       }
       
       setCompanyName(data?.company_name || 'My Company');
+      setTimeZone(data?.time_zone || DEFAULT_TIME_ZONE);
     } catch (error) {
       console.error('Error fetching company name:', error);
+      setTenantId(userId);
       setCompanyName('My Company');
     }
   };
 
+  const isOwner = role === 'owner';
+  const isAdmin = role === 'owner' || role === 'admin';
+
+  const canEditEmployee = (id: string) => isAdmin || (role !== 'viewer' && id === employeeId);
+
   const signOut = async () => {
     await supabase.auth.signOut();
     setUser(null);
     setSession(null);
+    setTenantId(null);
+    setEmployeeId(null);
+    setRole(null);
     setCompanyName(null);
+    setTimeZone(DEFAULT_TIME_ZONE);
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, companyName, loading, signOut }}>
+    <AuthContext.Provider value={{
+      user,
+      session,
+      tenantId,
+      employeeId,
+      role,
+      isOwner,
+      isAdmin,
+      canEditEmployee,
+      companyName,
+      timeZone,
+      loading,
+      signOut,
+    }}>
       {children}
     </AuthContext.Provider>
   );
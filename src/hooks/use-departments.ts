@@ -0,0 +1,36 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Department } from '@/lib/departments';
+
+export function useDepartments() {
+  const { tenantId } = useAuth();
+  const [departments, setDepartments] = useState<Department[]>([]);
+
+  const loadDepartments = useCallback(async () => {
+    if (!tenantId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('departments')
+        .select('id, name')
+        .eq('tenant_id', tenantId)
+        .order('name');
+
+      if (error) throw error;
+
+      setDepartments(data || []);
+    } catch (error) {
+      console.error('Error loading departments:', error);
+    }
+  }, [tenantId]);
+
+  useEffect(() => {
+    loadDepartments();
+  }, [loadDepartments]);
+
+  return {
+    departments,
+    reload: loadDepartments,
+  };
+}
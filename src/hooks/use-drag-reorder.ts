@@ -0,0 +1,49 @@
+import { useState, DragEvent } from 'react';
+
+// Native HTML5 drag-and-drop for reordering a list of items with ids.
+// onReorder receives the items in their new order after a drop.
+export function useDragReorder<T extends { id: string }>(items: T[], onReorder: (items: T[]) => void) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [overId, setOverId] = useState<string | null>(null);
+
+  const reset = () => {
+    setDraggingId(null);
+    setOverId(null);
+  };
+
+  const getDragProps = (id: string, enabled = true) => {
+    if (!enabled) return {};
+
+    return {
+      draggable: true,
+      onDragStart: (e: DragEvent) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', id);
+        setDraggingId(id);
+      },
+      onDragOver: (e: DragEvent) => {
+        if (!draggingId) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        if (overId !== id) setOverId(id);
+      },
+      onDrop: (e: DragEvent) => {
+        e.preventDefault();
+        if (draggingId && draggingId !== id) {
+          const from = items.findIndex((item) => item.id === draggingId);
+          const to = items.findIndex((item) => item.id === id);
+          if (from !== -1 && to !== -1) {
+            const reordered = [...items];
+            const [moved] = reordered.splice(from, 1);
+            reordered.splice(to, 0, moved);
+            onReorder(reordered);
+          }
+        }
+        reset();
+      },
+      onDragEnd: reset,
+    };
+  };
+
+  return { draggingId, overId, getDragProps };
+}
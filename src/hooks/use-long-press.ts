@@ -0,0 +1,56 @@
+import { useRef, PointerEvent, MouseEvent } from 'react';
+
+const MOVE_TOLERANCE = 10;
+
+// Long press on touch screens and with the mouse, for items with ids.
+// The click that ends a long press should be ignored; consumeLongPress()
+// tells whether that is the case.
+export function useLongPress(onLongPress: (id: string) => void, delay = 500) {
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const start = useRef<{ x: number; y: number } | null>(null);
+  const fired = useRef(false);
+
+  const cancel = () => {
+    if (timer.current) clearTimeout(timer.current);
+    timer.current = null;
+    start.current = null;
+  };
+
+  const getLongPressProps = (id: string, enabled = true) => {
+    if (!enabled) return {};
+
+    return {
+      onPointerDown: (e: PointerEvent) => {
+        if (e.pointerType === 'mouse' && e.button !== 0) return;
+        cancel();
+        fired.current = false;
+        start.current = { x: e.clientX, y: e.clientY };
+        timer.current = setTimeout(() => {
+          fired.current = true;
+          timer.current = null;
+          onLongPress(id);
+        }, delay);
+      },
+      // Scrolling or dragging is not a long press
+      onPointerMove: (e: PointerEvent) => {
+        if (!start.current) return;
+        if (Math.hypot(e.clientX - start.current.x, e.clientY - start.current.y) > MOVE_TOLERANCE) cancel();
+      },
+      onPointerUp: cancel,
+      onPointerLeave: cancel,
+      onPointerCancel: cancel,
+      // Keep the browser's context menu from opening on touch screens
+      onContextMenu: (e: MouseEvent) => {
+        if (fired.current) e.preventDefault();
+      },
+    };
+  };
+
+  const consumeLongPress = () => {
+    const wasLongPress = fired.current;
+    fired.current = false;
+    return wasLongPress;
+  };
+
+  return { getLongPressProps, consumeLongPress };
+}
@@ -0,0 +1,85 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { OccupancyDay, getForecastPeriod } from '@/lib/occupancy';
+
+// Who is expected in the office each day of a period. Nothing is loaded
+// while there is no period.
+export function useOccupancy(period: { from: string; to: string } | null) {
+  const { tenantId } = useAuth();
+  const [occupancy, setOccupancy] = useState<OccupancyDay[]>([]);
+  const latestRequest = useRef(0);
+  const from = period?.from;
+  const to = period?.to;
+
+  const loadOccupancy = useCallback(async () => {
+    // An answer for an earlier period that arrives late must not replace a newer one
+    const request = ++latestRequest.current;
+
+    if (!tenantId || !from || !to) {
+      setOccupancy([]);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_office_occupancy', { p_from: from, p_to: to });
+
+      if (error) throw error;
+      if (request === latestRequest.current) setOccupancy(data || []);
+    } catch (error) {
+      console.error('Error loading office occupancy:', error);
+    }
+  }, [tenantId, from, to]);
+
+  useEffect(() => {
+    loadOccupancy();
+  }, [loadOccupancy]);
+
+  return {
+    occupancy,
+    reload: loadOccupancy,
+  };
+}
+
+// The tenant's office capacity and who is expected in the office each day,
+// by default for the coming weeks
+export function useOfficeOccupancy(from?: string, to?: string) {
+  const { tenantId, timeZone } = useAuth();
+  const [capacity, setCapacity] = useState<number | null>(null);
+  const { occupancy, reload: reloadOccupancy } = useOccupancy(
+    from && to ? { from, to } : getForecastPeriod(timeZone)
+  );
+
+  const loadCapacity = useCallback(async () => {
+    if (!tenantId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('office_capacity')
+        .eq('id', tenantId)
+        .single();
+
+      if (error) throw error;
+
+      setCapacity(data.office_capacity);
+    } catch (error) {
+      console.error('Error loading office capacity:', error);
+    }
+  }, [tenantId]);
+
+  useEffect(() => {
+    loadCapacity();
+  }, [loadCapacity]);
+
+  const reload = useCallback(() => {
+    loadCapacity();
+    reloadOccupancy();
+  }, [loadCapacity, reloadOccupancy]);
+
+  return {
+    capacity,
+    occupancy,
+    reload,
+  };
+}
@@ -0,0 +1,38 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { PredefinedStatus, StatusCategory, findStatusMeta } from '@/lib/statuses';
+
+export function usePredefinedStatuses() {
+  const { tenantId } = useAuth();
+  const [statuses, setStatuses] = useState<PredefinedStatus[]>([]);
+
+  const loadStatuses = useCallback(async () => {
+    if (!tenantId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('predefined_statuses')
+        .select('id, status_text, color, icon, category, counts_on_site')
+        .eq('tenant_id', tenantId)
+        .order('sort_order');
+
+      if (error) throw error;
+
+      setStatuses((data || []).map((s) => ({ ...s, category: s.category as StatusCategory })));
+    } catch (error) {
+      console.error('Error loading predefined statuses:', error);
+    }
+  }, [tenantId]);
+
+  useEffect(() => {
+    loadStatuses();
+  }, [loadStatuses]);
+
+  return {
+    statuses,
+    statusTexts: statuses.map((s) => s.status_text),
+    getStatusMeta: (statusText: string | null | undefined) => findStatusMeta(statuses, statusText),
+    reload: loadStatuses,
+  };
+}
@@ -14,6 +14,48 @@ export type Database = {
   }
   public: {
     Tables: {
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          employee_id: string | null
+          id: string
+          last_used_at: string | null
+          tenant_id: string
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          employee_id?: string | null
+          id?: string
+          last_used_at?: string | null
+          tenant_id: string
+          token?: string
+        }
+        Update: {
+          created_at?: string
+          employee_id?: string | null
+          id?: string
+          last_used_at?: string | null
+          tenant_id?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feed_tokens_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "calendar_feed_tokens_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       daily_messages: {
         Row: {
           created_at: string
@@ -38,18 +80,92 @@ export type Database = {
         }
         Relationships: []
       }
+      departments: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          tenant_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          tenant_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "departments_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      display_tokens: {
+        Row: {
+          created_at: string
+          id: string
+          last_used_at: string | null
+          name: string
+          tenant_id: string
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          last_used_at?: string | null
+          name: string
+          tenant_id: string
+          token?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_used_at?: string | null
+          name?: string
+          tenant_id?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "display_tokens_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       employees: {
         Row: {
           already_applied: boolean | null
           applied_date: string | null
           created_at: string | null
+          department_id: string | null
           email: string | null
           id: string
           image_url: string | null
           name: string
+          next_status: string | null
+          next_status_change_at: string | null
           phone: string | null
           recurring_enabled: boolean | null
+          sort_order: number
           status: string | null
+          status_before_timed: string | null
+          status_contact: string | null
+          status_expires_at: string | null
+          status_note: string | null
+          status_return_at: string | null
+          status_revert_to: string | null
           tenant_id: string
           updated_at: string | null
         }
@@ -57,13 +173,23 @@ export type Database = {
           already_applied?: boolean | null
           applied_date?: string | null
           created_at?: string | null
+          department_id?: string | null
           email?: string | null
           id?: string
           image_url?: string | null
           name: string
+          next_status?: string | null
+          next_status_change_at?: string | null
           phone?: string | null
           recurring_enabled?: boolean | null
+          sort_order?: number
           status?: string | null
+          status_before_timed?: string | null
+          status_contact?: string | null
+          status_expires_at?: string | null
+          status_note?: string | null
+          status_return_at?: string | null
+          status_revert_to?: string | null
           tenant_id: string
           updated_at?: string | null
         }
@@ -71,17 +197,34 @@ export type Database = {
           already_applied?: boolean | null
           applied_date?: string | null
           created_at?: string | null
+          department_id?: string | null
           email?: string | null
           id?: string
           image_url?: string | null
           name?: string
+          next_status?: string | null
+          next_status_change_at?: string | null
           phone?: string | null
           recurring_enabled?: boolean | null
+          sort_order?: number
           status?: string | null
+          status_before_timed?: string | null
+          status_contact?: string | null
+          status_expires_at?: string | null
+          status_note?: string | null
+          status_return_at?: string | null
+          status_revert_to?: string | null
           tenant_id?: string
           updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "employees_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "employees_tenant_id_fkey"
             columns: ["tenant_id"]
@@ -91,22 +234,69 @@ export type Database = {
           },
         ]
       }
+      holidays: {
+        Row: {
+          created_at: string
+          date: string
+          id: string
+          name: string
+          tenant_id: string
+        }
+        Insert: {
+          created_at?: string
+          date: string
+          id?: string
+          name: string
+          tenant_id: string
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          id?: string
+          name?: string
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "holidays_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       predefined_statuses: {
         Row: {
+          category: string
+          color: string | null
+          counts_on_site: boolean
           created_at: string
+          icon: string | null
           id: string
+          sort_order: number
           status_text: string
           tenant_id: string
         }
         Insert: {
+          category?: string
+          color?: string | null
+          counts_on_site?: boolean
           created_at?: string
+          icon?: string | null
           id?: string
+          sort_order?: number
           status_text: string
           tenant_id: string
         }
         Update: {
+          category?: string
+          color?: string | null
+          counts_on_site?: boolean
           created_at?: string
+          icon?: string | null
           id?: string
+          sort_order?: number
           status_text?: string
           tenant_id?: string
         }
@@ -124,19 +314,37 @@ export type Database = {
         Row: {
           company_name: string
           created_at: string
+          default_status: string | null
+          holiday_status: string
           id: string
+          last_reset_date: string | null
+          office_capacity: number | null
+          reset_time: string | null
+          time_zone: string
           updated_at: string
         }
         Insert: {
           company_name: string
           created_at?: string
+          default_status?: string | null
+          holiday_status?: string
           id: string
+          last_reset_date?: string | null
+          office_capacity?: number | null
+          reset_time?: string | null
+          time_zone?: string
           updated_at?: string
         }
         Update: {
           company_name?: string
           created_at?: string
+          default_status?: string | null
+          holiday_status?: string
           id?: string
+          last_reset_date?: string | null
+          office_capacity?: number | null
+          reset_time?: string | null
+          time_zone?: string
           updated_at?: string
         }
         Relationships: []
@@ -146,28 +354,52 @@ export type Database = {
           created_at: string
           day_of_week: number
           employee_id: string
+          end_time: string | null
+          ends_on: string | null
+          frequency: string
           id: string
+          interval_weeks: number
           last_applied_date: string | null
+          sort_order: number
+          start_time: string | null
+          starts_on: string | null
           status_text: string
           tenant_id: string
+          week_of_month: number | null
         }
         Insert: {
           created_at?: string
           day_of_week: number
           employee_id: string
+          end_time?: string | null
+          ends_on?: string | null
+          frequency?: string
           id?: string
+          interval_weeks?: number
           last_applied_date?: string | null
+          sort_order?: number
+          start_time?: string | null
+          starts_on?: string | null
           status_text: string
           tenant_id: string
+          week_of_month?: number | null
         }
         Update: {
           created_at?: string
           day_of_week?: number
           employee_id?: string
+          end_time?: string | null
+          ends_on?: string | null
+          frequency?: string
           id?: string
+          interval_weeks?: number
           last_applied_date?: string | null
+          sort_order?: number
+          start_time?: string | null
+          starts_on?: string | null
           status_text?: string
           tenant_id?: string
+          week_of_month?: number | null
         }
         Relationships: [
           {
@@ -183,27 +415,39 @@ export type Database = {
         Row: {
           created_at: string
           employee_id: string
+          end_date: string
+          end_time: string | null
           id: string
           last_applied_date: string | null
           scheduled_date: string
+          skip_weekends: boolean
+          start_time: string | null
           status_text: string
           tenant_id: string
         }
         Insert: {
           created_at?: string
           employee_id: string
+          end_date: string
+          end_time?: string | null
           id?: string
           last_applied_date?: string | null
           scheduled_date: string
+          skip_weekends?: boolean
+          start_time?: string | null
           status_text: string
           tenant_id: string
         }
         Update: {
           created_at?: string
           employee_id?: string
+          end_date?: string
+          end_time?: string | null
           id?: string
           last_applied_date?: string | null
           scheduled_date?: string
+          skip_weekends?: boolean
+          start_time?: string | null
           status_text?: string
           tenant_id?: string
         }
@@ -217,12 +461,230 @@ export type Database = {
           },
         ]
       }
+      status_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          employee_id: string
+          id: string
+          new_status: string | null
+          old_status: string | null
+          source: string
+          tenant_id: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          employee_id: string
+          id?: string
+          new_status?: string | null
+          old_status?: string | null
+          source?: string
+          tenant_id: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          employee_id?: string
+          id?: string
+          new_status?: string | null
+          old_status?: string | null
+          source?: string
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "status_history_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "status_history_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tenant_members: {
+        Row: {
+          created_at: string
+          email: string
+          employee_id: string | null
+          id: string
+          role: string
+          tenant_id: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          employee_id?: string | null
+          id?: string
+          role?: string
+          tenant_id: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          employee_id?: string | null
+          id?: string
+          role?: string
+          tenant_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tenant_members_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: true
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tenant_members_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      apply_daily_statuses: {
+        Args: { p_tenant_id?: string }
+        Returns: undefined
+      }
+      assert_bulk_admin: {
+        Args: { p_employee_ids: string[] }
+        Returns: undefined
+      }
+      bulk_schedule_status: {
+        Args: {
+          p_employee_ids: string[]
+          p_from: string
+          p_skip_weekends?: boolean
+          p_status: string
+          p_to: string
+        }
+        Returns: undefined
+      }
+      bulk_set_recurring_statuses: {
+        Args: { p_employee_ids: string[]; p_pattern: Json }
+        Returns: undefined
+      }
+      bulk_set_status: {
+        Args: { p_employee_ids: string[]; p_status: string }
+        Returns: undefined
+      }
+      current_employee_id: {
+        Args: never
+        Returns: string
+      }
+      current_tenant_id: {
+        Args: never
+        Returns: string
+      }
+      current_tenant_role: {
+        Args: never
+        Returns: string
+      }
+      delete_tenant: {
+        Args: never
+        Returns: undefined
+      }
+      employee_on_site: {
+        Args: { p_date: string; p_employee_id: string }
+        Returns: boolean
+      }
+      get_daily_status_report: {
+        Args: { p_from: string; p_to: string }
+        Returns: {
+          day: string
+          employee_id: string
+          status_text: string
+        }[]
+      }
+      get_display_board: {
+        Args: { p_token: string }
+        Returns: Json
+      }
+      get_office_occupancy: {
+        Args: { p_from: string; p_to: string }
+        Returns: {
+          day: string
+          employee_ids: string[]
+        }[]
+      }
+      get_planner: {
+        Args: { p_from: string; p_to: string }
+        Returns: {
+          day: string
+          employee_id: string
+          part_day: boolean
+          source: string
+          status_text: string
+        }[]
+      }
+      is_tenant_admin: {
+        Args: { p_tenant_id: string }
+        Returns: boolean
+      }
+      is_valid_time_zone: {
+        Args: { p_time_zone: string }
+        Returns: boolean
+      }
+      next_status_change_time: {
+        Args: { p_date: string; p_employee_id: string; p_time?: string }
+        Returns: string
+      }
+      recurring_status_applies: {
+        Args: {
+          p_date: string
+          p_day_of_week: number
+          p_ends_on: string
+          p_frequency: string
+          p_interval_weeks: number
+          p_starts_on: string
+          p_week_of_month: number
+        }
+        Returns: boolean
+      }
+      reorder_employees: {
+        Args: { p_ids: string[] }
+        Returns: undefined
+      }
+      reorder_predefined_statuses: {
+        Args: { p_ids: string[] }
+        Returns: undefined
+      }
+      reorder_recurring_statuses: {
+        Args: { p_ids: string[] }
+        Returns: undefined
+      }
+      resolve_employee_status: {
+        Args: { p_date: string; p_employee_id: string; p_time?: string }
+        Returns: {
+          source: string
+          status_text: string
+        }[]
+      }
+      revert_expired_statuses: {
+        Args: never
+        Returns: undefined
+      }
+      tenant_today: {
+        Args: { p_tenant_id: string }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
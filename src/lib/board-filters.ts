@@ -0,0 +1,100 @@
+import { PredefinedStatus, STATUS_CATEGORIES, StatusCategory, findStatusMeta } from '@/lib/statuses';
+
+// Quick filters for the board, one per status category as in the status summary
+export type PresenceFilter = StatusCategory;
+
+export interface BoardFilters {
+  search: string;
+  statuses: string[];
+  presence: PresenceFilter | null;
+  departments: string[];
+}
+
+// Department filter value for people who are not in any department
+export const NO_DEPARTMENT = 'none';
+
+export const EMPTY_BOARD_FILTERS: BoardFilters = {
+  search: '',
+  statuses: [],
+  presence: null,
+  departments: [],
+};
+
+// Filters live in the query string so a filtered board can be bookmarked,
+// e.g. /?q=anna&status=In&status=Remote&presence=present&department=<id>
+export function parseBoardFilters(params: URLSearchParams): BoardFilters {
+  const presence = params.get('presence');
+
+  return {
+    search: params.get('q') || '',
+    statuses: params.getAll('status'),
+    presence: STATUS_CATEGORIES.find((category) => category.value === presence)?.value ?? null,
+    departments: params.getAll('department'),
+  };
+}
+
+export function toSearchParams(filters: BoardFilters): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filters.search) params.set('q', filters.search);
+  filters.statuses.forEach((status) => params.append('status', status));
+  if (filters.presence) params.set('presence', filters.presence);
+  filters.departments.forEach((department) => params.append('department', department));
+
+  return params;
+}
+
+export function hasActiveFilters(filters: BoardFilters) {
+  return (
+    filters.search.trim() !== '' ||
+    filters.statuses.length > 0 ||
+    filters.presence !== null ||
+    filters.departments.length > 0
+  );
+}
+
+interface FilterableEmployee {
+  name: string;
+  email: string | null;
+  phone: string | null;
+  status: string;
+  department_id: string | null;
+}
+
+export function filterEmployees<T extends FilterableEmployee>(
+  employees: T[],
+  filters: BoardFilters,
+  statuses: PredefinedStatus[]
+): T[] {
+  const search = filters.search.trim().toLowerCase();
+
+  return employees.filter((employee) => {
+    if (search) {
+      const haystack = [employee.name, employee.email, employee.phone]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase();
+      if (!haystack.includes(search)) return false;
+    }
+
+    if (
+      filters.statuses.length > 0 &&
+      !filters.statuses.some((status) => status.trim().toLowerCase() === employee.status?.trim().toLowerCase())
+    ) {
+      return false;
+    }
+
+    if (filters.presence && findStatusMeta(statuses, employee.status)?.category !== filters.presence) {
+      return false;
+    }
+
+    if (
+      filters.departments.length > 0 &&
+      !filters.departments.includes(employee.department_id || NO_DEPARTMENT)
+    ) {
+      return false;
+    }
+
+    return true;
+  });
+}
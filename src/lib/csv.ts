@@ -0,0 +1,78 @@
+// Minimal RFC 4180 CSV handling: quoted fields, escaped quotes ("") and
+// line breaks inside quotes. Good enough for spreadsheets exported from
+// Excel, Numbers and Google Sheets.
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Excel likes to start UTF-8 files with a byte order mark
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines, e.g. a trailing newline
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Spreadsheets run text starting with one of these as a formula, so a status
+// or name like "=HYPERLINK(...)" is kept as plain text with a leading quote.
+// Phone numbers like "+47 912 34 567" and plain numbers are left alone, as
+// they export and import again unchanged.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NUMBER_LIKE = /^[+-][\d\s().-]+$/;
+
+const escapeField = (value: CsvValue) => {
+  const raw = value === null || value === undefined ? '' : String(value);
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(raw) && !NUMBER_LIKE.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map((row) => row.map(escapeField).join(',')).join('\r\n');
+}
+
+export function downloadCsv(filename: string, rows: CsvValue[][]) {
+  const blob = new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,34 @@
+import { addDays, format, parseISO } from "date-fns";
+import { formatInTimeZone, fromZonedTime } from "date-fns-tz";
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+// Today's date (yyyy-MM-dd) in the given time zone
+export function getTodayInTimeZone(timeZone: string) {
+  return formatInTimeZone(new Date(), timeZone, "yyyy-MM-dd");
+}
+
+// Today in the given time zone as a local Date at midnight, for comparing with calendar days
+export function getTodayDateInTimeZone(timeZone: string) {
+  return parseISO(getTodayInTimeZone(timeZone));
+}
+
+// The instant a calendar day starts in the given time zone
+export function startOfDayInTimeZone(day: Date, timeZone: string) {
+  return fromZonedTime(`${format(day, "yyyy-MM-dd")}T00:00:00`, timeZone);
+}
+
+// The instant the day after the given calendar day starts in the given time zone
+export function endOfDayInTimeZone(day: Date, timeZone: string) {
+  return startOfDayInTimeZone(addDays(day, 1), timeZone);
+}
+
+export function getBrowserTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIME_ZONE;
+}
+
+export function getSupportedTimeZones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: "timeZone") => string[] };
+  const zones = intl.supportedValuesOf?.("timeZone") || [];
+  return zones.includes(DEFAULT_TIME_ZONE) ? zones : [DEFAULT_TIME_ZONE, ...zones];
+}
@@ -0,0 +1,34 @@
+export interface Department {
+  id: string;
+  name: string;
+}
+
+export interface DepartmentGroup<T> {
+  department: Department | null;
+  employees: T[];
+}
+
+// Split employees into department sections, keeping their order within each.
+// People without a department come last; empty departments are left out.
+export function groupByDepartment<T extends { department_id: string | null }>(
+  employees: T[],
+  departments: Department[]
+): DepartmentGroup<T>[] {
+  const groups: DepartmentGroup<T>[] = departments.map((department) => ({
+    department,
+    employees: employees.filter((e) => e.department_id === department.id),
+  }));
+
+  const known = new Set(departments.map((d) => d.id));
+  groups.push({
+    department: null,
+    employees: employees.filter((e) => !e.department_id || !known.has(e.department_id)),
+  });
+
+  return groups.filter((group) => group.employees.length > 0);
+}
+
+// Only show section headers when the board actually uses departments
+export function hasDepartmentGroups<T>(groups: DepartmentGroup<T>[]) {
+  return groups.some((group) => group.department !== null);
+}
@@ -0,0 +1,24 @@
+export type EmployeeField = 'name' | 'phone' | 'email';
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Returns an error message, or null when the value is fine to save
+export function validateEmployeeField(field: EmployeeField, value: string): string | null {
+  const trimmed = value.trim();
+
+  if (field === 'name') {
+    if (!trimmed) return 'Name cannot be empty';
+    if (trimmed.length > 100) return 'Name must be less than 100 characters';
+  }
+
+  if (field === 'email' && trimmed) {
+    if (!EMAIL_REGEX.test(trimmed)) return 'Invalid email address';
+    if (trimmed.length > 255) return 'Email must be less than 255 characters';
+  }
+
+  if (field === 'phone' && trimmed.length > 50) {
+    return 'Phone number must be less than 50 characters';
+  }
+
+  return null;
+}
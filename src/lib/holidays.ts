@@ -0,0 +1,175 @@
+import { addDays, format } from 'date-fns';
+
+export interface Holiday {
+  id: string;
+  date: string;
+  name: string;
+}
+
+// How a holiday falls in a given year. Months are 1-12 and weekdays 0-6 (Sunday first).
+type HolidayRule =
+  | { name: string; month: number; day: number }
+  | { name: string; easterOffset: number }
+  // The nth weekday of a month, or the last one when nth is -1
+  | { name: string; month: number; weekday: number; nth: number }
+  // The first given weekday on or after a date
+  | { name: string; month: number; weekday: number; onOrAfter: number };
+
+export interface HolidayPreset {
+  code: string;
+  country: string;
+  rules: HolidayRule[];
+}
+
+// National holidays only. Regional holidays and days moved off a weekend are
+// left out, so add those by hand where they apply.
+export const HOLIDAY_PRESETS: HolidayPreset[] = [
+  {
+    code: 'NO',
+    country: 'Norway',
+    rules: [
+      { name: "New Year's Day", month: 1, day: 1 },
+      { name: 'Maundy Thursday', easterOffset: -3 },
+      { name: 'Good Friday', easterOffset: -2 },
+      { name: 'Easter Sunday', easterOffset: 0 },
+      { name: 'Easter Monday', easterOffset: 1 },
+      { name: 'Labour Day', month: 5, day: 1 },
+      { name: 'Constitution Day', month: 5, day: 17 },
+      { name: 'Ascension Day', easterOffset: 39 },
+      { name: 'Whit Sunday', easterOffset: 49 },
+      { name: 'Whit Monday', easterOffset: 50 },
+      { name: 'Christmas Day', month: 12, day: 25 },
+      { name: "St. Stephen's Day", month: 12, day: 26 },
+    ],
+  },
+  {
+    code: 'SE',
+    country: 'Sweden',
+    rules: [
+      { name: "New Year's Day", month: 1, day: 1 },
+      { name: 'Epiphany', month: 1, day: 6 },
+      { name: 'Good Friday', easterOffset: -2 },
+      { name: 'Easter Sunday', easterOffset: 0 },
+      { name: 'Easter Monday', easterOffset: 1 },
+      { name: 'May Day', month: 5, day: 1 },
+      { name: 'Ascension Day', easterOffset: 39 },
+      { name: 'National Day', month: 6, day: 6 },
+      { name: 'Whit Sunday', easterOffset: 49 },
+      { name: 'Midsummer Eve', month: 6, weekday: 5, onOrAfter: 19 },
+      { name: 'Midsummer Day', month: 6, weekday: 6, onOrAfter: 20 },
+      { name: "All Saints' Day", month: 10, weekday: 6, onOrAfter: 31 },
+      { name: 'Christmas Eve', month: 12, day: 24 },
+      { name: 'Christmas Day', month: 12, day: 25 },
+      { name: 'Boxing Day', month: 12, day: 26 },
+      { name: "New Year's Eve", month: 12, day: 31 },
+    ],
+  },
+  {
+    code: 'DK',
+    country: 'Denmark',
+    rules: [
+      { name: "New Year's Day", month: 1, day: 1 },
+      { name: 'Maundy Thursday', easterOffset: -3 },
+      { name: 'Good Friday', easterOffset: -2 },
+      { name: 'Easter Sunday', easterOffset: 0 },
+      { name: 'Easter Monday', easterOffset: 1 },
+      { name: 'Ascension Day', easterOffset: 39 },
+      { name: 'Whit Sunday', easterOffset: 49 },
+      { name: 'Whit Monday', easterOffset: 50 },
+      { name: 'Constitution Day', month: 6, day: 5 },
+      { name: 'Christmas Eve', month: 12, day: 24 },
+      { name: 'Christmas Day', month: 12, day: 25 },
+      { name: 'Boxing Day', month: 12, day: 26 },
+    ],
+  },
+  {
+    code: 'DE',
+    country: 'Germany',
+    rules: [
+      { name: "New Year's Day", month: 1, day: 1 },
+      { name: 'Good Friday', easterOffset: -2 },
+      { name: 'Easter Monday', easterOffset: 1 },
+      { name: 'Labour Day', month: 5, day: 1 },
+      { name: 'Ascension Day', easterOffset: 39 },
+      { name: 'Whit Monday', easterOffset: 50 },
+      { name: 'German Unity Day', month: 10, day: 3 },
+      { name: 'Christmas Day', month: 12, day: 25 },
+      { name: 'Boxing Day', month: 12, day: 26 },
+    ],
+  },
+  {
+    code: 'GB',
+    country: 'United Kingdom (England and Wales)',
+    rules: [
+      { name: "New Year's Day", month: 1, day: 1 },
+      { name: 'Good Friday', easterOffset: -2 },
+      { name: 'Easter Monday', easterOffset: 1 },
+      { name: 'Early May Bank Holiday', month: 5, weekday: 1, nth: 1 },
+      { name: 'Spring Bank Holiday', month: 5, weekday: 1, nth: -1 },
+      { name: 'Summer Bank Holiday', month: 8, weekday: 1, nth: -1 },
+      { name: 'Christmas Day', month: 12, day: 25 },
+      { name: 'Boxing Day', month: 12, day: 26 },
+    ],
+  },
+  {
+    code: 'US',
+    country: 'United States',
+    rules: [
+      { name: "New Year's Day", month: 1, day: 1 },
+      { name: 'Martin Luther King Jr. Day', month: 1, weekday: 1, nth: 3 },
+      { name: "Presidents' Day", month: 2, weekday: 1, nth: 3 },
+      { name: 'Memorial Day', month: 5, weekday: 1, nth: -1 },
+      { name: 'Juneteenth', month: 6, day: 19 },
+      { name: 'Independence Day', month: 7, day: 4 },
+      { name: 'Labor Day', month: 9, weekday: 1, nth: 1 },
+      { name: 'Columbus Day', month: 10, weekday: 1, nth: 2 },
+      { name: 'Veterans Day', month: 11, day: 11 },
+      { name: 'Thanksgiving Day', month: 11, weekday: 4, nth: 4 },
+      { name: 'Christmas Day', month: 12, day: 25 },
+    ],
+  },
+];
+
+// Easter Sunday in the Gregorian calendar (anonymous Gregorian algorithm)
+export function getEasterSunday(year: number) {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+const ruleDate = (rule: HolidayRule, year: number) => {
+  if ('easterOffset' in rule) return addDays(getEasterSunday(year), rule.easterOffset);
+  if ('day' in rule) return new Date(year, rule.month - 1, rule.day);
+
+  if ('onOrAfter' in rule) {
+    const from = new Date(year, rule.month - 1, rule.onOrAfter);
+    return addDays(from, (rule.weekday - from.getDay() + 7) % 7);
+  }
+
+  if (rule.nth === -1) {
+    const last = new Date(year, rule.month, 0);
+    return addDays(last, -((last.getDay() - rule.weekday + 7) % 7));
+  }
+
+  const first = new Date(year, rule.month - 1, 1);
+  return addDays(first, (rule.weekday - first.getDay() + 7) % 7 + (rule.nth - 1) * 7);
+};
+
+// A preset's holidays in a year, by date
+export function getPresetHolidays(preset: HolidayPreset, year: number) {
+  return preset.rules
+    .map((rule) => ({ date: format(ruleDate(rule, year), 'yyyy-MM-dd'), name: rule.name }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -0,0 +1,152 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+
+// An event from an .ics file, reduced to what a scheduled status needs
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  // First and last calendar day of the event (yyyy-MM-dd), both inclusive
+  startDate: string;
+  endDate: string;
+  // Attendee and organizer addresses, lower case
+  emails: string[];
+  recurring: boolean;
+  cancelled: boolean;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Splits "NAME;PARAM=x;PARAM="a:b":value", keeping colons inside quoted parameters
+const parseContentLine = (line: string): ContentLine | null => {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  paramParts.forEach((part) => {
+    const eq = part.indexOf('=');
+    if (eq === -1) return;
+    params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+
+const toDay = (compact: string) => `${compact.slice(0, 4)}-${compact.slice(4, 6)}-${compact.slice(6, 8)}`;
+
+// Resolves a DTSTART/DTEND to a calendar day. UTC times are moved into the
+// tenant's time zone; local and floating times keep their own date.
+const parseDateValue = (value: string, timeZone: string) => {
+  const match = value.match(/^(\d{8})(?:T(\d{6})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, date, time, utc] = match;
+  if (!time) return { day: toDay(date), allDay: true, midnight: true };
+
+  if (utc) {
+    const instant = new Date(
+      `${toDay(date)}T${time.slice(0, 2)}:${time.slice(2, 4)}:${time.slice(4, 6)}Z`
+    );
+    const local = formatInTimeZone(instant, timeZone, "yyyy-MM-dd'T'HHmmss");
+    return { day: local.slice(0, 10), allDay: false, midnight: local.endsWith('T000000') };
+  }
+
+  return { day: toDay(date), allDay: false, midnight: time === '000000' };
+};
+
+const shiftDay = (day: string, days: number) => format(addDays(parseISO(day), days), 'yyyy-MM-dd');
+
+// Only whole days and weeks matter for absences
+const durationInDays = (value: string) => {
+  const match = value.match(/^P(?:(\d+)W)?(?:(\d+)D)?/);
+  if (!match) return 0;
+  return Number(match[1] || 0) * 7 + Number(match[2] || 0);
+};
+
+const toEvent = (lines: ContentLine[], timeZone: string, index: number): IcsEvent | null => {
+  const get = (name: string) => lines.find((line) => line.name === name);
+
+  const start = get('DTSTART') && parseDateValue(get('DTSTART')!.value, timeZone);
+  if (!start) return null;
+
+  let endDate = start.day;
+  const end = get('DTEND') && parseDateValue(get('DTEND')!.value, timeZone);
+  const duration = get('DURATION') && durationInDays(get('DURATION')!.value);
+
+  if (end) {
+    // All-day ends and ends at midnight are exclusive, so the event ends the day before
+    endDate = end.allDay || end.midnight ? shiftDay(end.day, -1) : end.day;
+  } else if (duration) {
+    endDate = shiftDay(start.day, duration - 1);
+  }
+  if (endDate < start.day) endDate = start.day;
+
+  const emails = lines
+    .filter((line) => line.name === 'ATTENDEE' || line.name === 'ORGANIZER')
+    .map((line) => line.params.EMAIL || line.value.replace(/^mailto:/i, ''))
+    .map((email) => email.trim().toLowerCase())
+    .filter((email) => email.includes('@'));
+
+  return {
+    uid: get('UID')?.value || `event-${index}`,
+    summary: unescapeText(get('SUMMARY')?.value || '').trim(),
+    startDate: start.day,
+    endDate,
+    emails: [...new Set(emails)],
+    recurring: lines.some((line) => line.name === 'RRULE' || line.name === 'RDATE'),
+    cancelled: get('STATUS')?.value.toUpperCase() === 'CANCELLED',
+  };
+};
+
+export function parseIcs(text: string, timeZone: string): { events: IcsEvent[] } | { error: string } {
+  // Long lines are folded onto continuation lines that start with a space or tab
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  if (!lines.some((line) => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    return { error: 'This is not an iCalendar (.ics) file' };
+  }
+
+  const events: IcsEvent[] = [];
+  const components: string[] = [];
+  let current: ContentLine[] = [];
+
+  lines.forEach((raw) => {
+    const line = parseContentLine(raw.trim());
+    if (!line) return;
+
+    if (line.name === 'BEGIN') {
+      components.push(line.value.toUpperCase());
+      if (line.value.toUpperCase() === 'VEVENT') current = [];
+      return;
+    }
+
+    if (line.name === 'END') {
+      const ended = components.pop();
+      if (ended === 'VEVENT') {
+        const event = toEvent(current, timeZone, events.length);
+        if (event) events.push(event);
+      }
+      return;
+    }
+
+    // Properties of nested components such as VALARM are ignored
+    if (components[components.length - 1] === 'VEVENT') current.push(line);
+  });
+
+  return { events };
+}
@@ -0,0 +1,55 @@
+import { addDays, format, max, min, parseISO } from 'date-fns';
+import { getTodayDateInTimeZone } from '@/lib/dates';
+
+// How far ahead office occupancy is forecast
+export const FORECAST_DAYS = 28;
+
+// The longest period public.get_office_occupancy() covers in one call
+export const MAX_OCCUPANCY_DAYS = 366;
+
+// A row of public.get_office_occupancy(): who is expected in the office that day
+export interface OccupancyDay {
+  day: string;
+  employee_ids: string[];
+}
+
+export function getForecastPeriod(timeZone: string) {
+  const today = getTodayDateInTimeZone(timeZone);
+  return {
+    from: format(today, 'yyyy-MM-dd'),
+    to: format(addDays(today, FORECAST_DAYS - 1), 'yyyy-MM-dd'),
+  };
+}
+
+// The upcoming part of an entry's dates, for checking it against the capacity.
+// Open-ended entries are checked for up to a year ahead.
+export function getEntryPeriod(timeZone: string, from?: Date, to?: Date) {
+  const start = max([getTodayDateInTimeZone(timeZone), from ?? 0]);
+  const end = min([to ?? addDays(start, MAX_OCCUPANCY_DAYS - 1), addDays(start, MAX_OCCUPANCY_DAYS - 1)]);
+  return {
+    from: format(start, 'yyyy-MM-dd'),
+    to: format(max([start, end]), 'yyyy-MM-dd'),
+  };
+}
+
+// The days (yyyy-MM-dd) on which having this person in the office goes over the
+// capacity. Days they already count towards are left out, as nothing changes there.
+export function findOverbookedDays(
+  occupancy: OccupancyDay[],
+  capacity: number | null,
+  employeeId: string,
+  days: string[]
+) {
+  if (!capacity) return [];
+
+  const wanted = new Set(days);
+  return occupancy
+    .filter((o) => wanted.has(o.day) && !o.employee_ids.includes(employeeId) && o.employee_ids.length >= capacity)
+    .map((o) => o.day);
+}
+
+// e.g. "Mon, Dec 22, Tue, Dec 23 and 2 more"
+export function formatDayList(days: string[], max = 3) {
+  const listed = days.slice(0, max).map((day) => format(parseISO(day), 'EEE, MMM d')).join(', ');
+  return days.length > max ? `${listed} and ${days.length - max} more` : listed;
+}
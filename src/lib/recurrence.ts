@@ -0,0 +1,87 @@
+import { addDays, differenceInCalendarDays, format, getDate, getDay, getMonth, parseISO, startOfWeek } from 'date-fns';
+import { formatTimeRange } from '@/lib/time-range';
+
+export type RecurrenceFrequency = 'weekly' | 'monthly';
+
+// A row of recurring_statuses. The first matching rule in sort_order wins.
+export interface RecurringRule {
+  id: string;
+  status_text: string;
+  day_of_week: number;
+  frequency: string;
+  interval_weeks: number;
+  week_of_month: number | null;
+  starts_on: string | null;
+  ends_on: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  sort_order: number;
+}
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Weekdays in the order they are offered, Monday first
+export const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export const WEEKS_OF_MONTH = [
+  { value: 1, label: 'First' },
+  { value: 2, label: 'Second' },
+  { value: 3, label: 'Third' },
+  { value: 4, label: 'Fourth' },
+  { value: -1, label: 'Last' },
+];
+
+export const MAX_INTERVAL_WEEKS = 12;
+
+type RecurrencePattern = Pick<
+  RecurringRule,
+  'day_of_week' | 'frequency' | 'interval_weeks' | 'week_of_month' | 'starts_on' | 'ends_on' | 'start_time' | 'end_time'
+>;
+
+// e.g. "Every 2 weeks on Friday, from Dec 05, 2025" or "First Monday of the month, 08:00-12:00"
+export function describeRecurrence(rule: RecurrencePattern) {
+  const weekday = WEEKDAY_NAMES[rule.day_of_week];
+
+  let description: string;
+  if (rule.frequency === 'monthly') {
+    const week = WEEKS_OF_MONTH.find((w) => w.value === rule.week_of_month)?.label || 'Every';
+    description = `${week} ${weekday} of the month`;
+  } else if (rule.interval_weeks > 1) {
+    description = `Every ${rule.interval_weeks} weeks on ${weekday}`;
+  } else {
+    description = `Every ${weekday}`;
+  }
+
+  const times = formatTimeRange(rule.start_time, rule.end_time);
+  if (times) description += `, ${times}`;
+
+  const formatDay = (day: string) => format(parseISO(day), 'MMM dd, yyyy');
+  if (rule.starts_on && rule.ends_on) {
+    description += `, ${formatDay(rule.starts_on)} - ${formatDay(rule.ends_on)}`;
+  } else if (rule.starts_on) {
+    description += `, from ${formatDay(rule.starts_on)}`;
+  } else if (rule.ends_on) {
+    description += `, until ${formatDay(rule.ends_on)}`;
+  }
+
+  return description;
+}
+
+// Whether a rule falls on a day, the same way public.recurring_status_applies decides
+export function recurrenceAppliesOn(rule: RecurrencePattern, day: Date) {
+  const date = format(day, 'yyyy-MM-dd');
+  if (getDay(day) !== rule.day_of_week) return false;
+  if (rule.starts_on && date < rule.starts_on) return false;
+  if (rule.ends_on && date > rule.ends_on) return false;
+
+  if (rule.frequency === 'monthly') {
+    if (rule.week_of_month === -1) return getMonth(addDays(day, 7)) !== getMonth(day);
+    return Math.floor((getDate(day) - 1) / 7) + 1 === rule.week_of_month;
+  }
+
+  if (rule.interval_weeks <= 1) return true;
+  if (!rule.starts_on) return false;
+
+  const firstWeek = startOfWeek(parseISO(rule.starts_on), { weekStartsOn: 1 });
+  return Math.floor(differenceInCalendarDays(day, firstWeek) / 7) % rule.interval_weeks === 0;
+}
@@ -0,0 +1,129 @@
+import { getDay, parseISO } from 'date-fns';
+import { PredefinedStatus, STATUS_CATEGORIES, StatusCategory, findStatusMeta } from '@/lib/statuses';
+
+// One row per person per day, as returned by get_daily_status_report
+export interface ReportRow {
+  employee_id: string;
+  day: string;
+  status_text: string | null;
+}
+
+export interface ReportEmployee {
+  id: string;
+  name: string;
+}
+
+// Statuses become chart series with keys that are safe to use in CSS variables
+export interface StatusSeries {
+  key: string;
+  label: string;
+  color: string;
+}
+
+export const CUSTOM_STATUS_COLOR = '#64748b';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+// Show the week starting on Monday
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const statusLabel = (row: ReportRow, statuses: PredefinedStatus[]) =>
+  findStatusMeta(statuses, row.status_text)?.status_text || row.status_text?.trim() || 'No status';
+
+const categoryOf = (row: ReportRow, statuses: PredefinedStatus[]): StatusCategory | 'other' =>
+  findStatusMeta(statuses, row.status_text)?.category || 'other';
+
+// Predefined statuses first in their configured order, then custom ones by use
+export function buildStatusSeries(rows: ReportRow[], statuses: PredefinedStatus[]): StatusSeries[] {
+  const counts = new Map<string, number>();
+  rows.forEach((row) => {
+    const label = statusLabel(row, statuses);
+    counts.set(label, (counts.get(label) || 0) + 1);
+  });
+
+  const predefined = statuses
+    .filter((s) => counts.has(s.status_text))
+    .map((s) => ({ label: s.status_text, color: s.color || CUSTOM_STATUS_COLOR }));
+  const custom = [...counts.entries()]
+    .filter(([label]) => !statuses.some((s) => s.status_text === label))
+    .sort((a, b) => b[1] - a[1])
+    .map(([label]) => ({ label, color: CUSTOM_STATUS_COLOR }));
+
+  return [...predefined, ...custom].map((series, i) => ({ ...series, key: `status${i}` }));
+}
+
+// Days per status, as { status, days, fill } for a bar chart
+export function buildStatusTotals(rows: ReportRow[], statuses: PredefinedStatus[], series: StatusSeries[]) {
+  return series.map((s) => ({
+    status: s.label,
+    days: rows.filter((row) => statusLabel(row, statuses) === s.label).length,
+    fill: s.color,
+  }));
+}
+
+// Days per status for each person, keyed by series key
+export function buildEmployeeBreakdown(
+  rows: ReportRow[],
+  employees: ReportEmployee[],
+  statuses: PredefinedStatus[],
+  series: StatusSeries[]
+) {
+  const keyByLabel = new Map(series.map((s) => [s.label, s.key]));
+
+  return employees
+    .map((employee) => {
+      const breakdown: Record<string, number | string> = { id: employee.id, name: employee.name, total: 0 };
+      series.forEach((s) => (breakdown[s.key] = 0));
+
+      rows
+        .filter((row) => row.employee_id === employee.id)
+        .forEach((row) => {
+          const key = keyByLabel.get(statusLabel(row, statuses));
+          if (key) breakdown[key] = (breakdown[key] as number) + 1;
+          breakdown.total = (breakdown.total as number) + 1;
+        });
+
+      return breakdown;
+    })
+    .filter((breakdown) => (breakdown.total as number) > 0);
+}
+
+// Average number of people present on each weekday in the period
+export function buildWeekdayOccupancy(rows: ReportRow[], statuses: PredefinedStatus[]) {
+  const presentByDay = new Map<string, number>();
+  rows.forEach((row) => {
+    if (!presentByDay.has(row.day)) presentByDay.set(row.day, 0);
+    if (categoryOf(row, statuses) === 'present') {
+      presentByDay.set(row.day, presentByDay.get(row.day)! + 1);
+    }
+  });
+
+  return WEEKDAY_ORDER.map((weekday) => {
+    const days = [...presentByDay.entries()].filter(([day]) => getDay(parseISO(day)) === weekday);
+    const total = days.reduce((sum, [, present]) => sum + present, 0);
+    return {
+      weekday: WEEKDAYS[weekday],
+      present: days.length > 0 ? Math.round((total / days.length) * 10) / 10 : 0,
+    };
+  });
+}
+
+// People per presence category for each day
+export function buildCategoryTrend(rows: ReportRow[], statuses: PredefinedStatus[]) {
+  const byDay = new Map<string, Record<StatusCategory | 'other', number>>();
+
+  rows.forEach((row) => {
+    if (!byDay.has(row.day)) {
+      byDay.set(row.day, { present: 0, away: 0, unavailable: 0, other: 0 });
+    }
+    byDay.get(row.day)![categoryOf(row, statuses)]++;
+  });
+
+  return [...byDay.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([day, counts]) => ({ day, ...counts }));
+}
+
+export const CATEGORY_SERIES: StatusSeries[] = [
+  ...STATUS_CATEGORIES.map((c) => ({ key: c.value, label: c.label, color: c.color })),
+  { key: 'other', label: 'Other', color: CUSTOM_STATUS_COLOR },
+];
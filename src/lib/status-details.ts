@@ -0,0 +1,25 @@
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+
+// Optional details stored next to a person's status
+export interface StatusDetails {
+  status_note: string | null;
+  status_return_at: string | null;
+  status_contact: string | null;
+}
+
+export const MAX_STATUS_NOTE_LENGTH = 200;
+export const MAX_STATUS_CONTACT_LENGTH = 100;
+
+export const hasStatusDetails = (details: StatusDetails) =>
+  !!(details.status_note || details.status_return_at || details.status_contact);
+
+// The return time as a value for a datetime-local input, and back
+export const toReturnInput = (returnAt: string | null, timeZone: string) =>
+  returnAt ? formatInTimeZone(returnAt, timeZone, "yyyy-MM-dd'T'HH:mm") : '';
+
+export const fromReturnInput = (value: string, timeZone: string) =>
+  value ? fromZonedTime(value, timeZone).toISOString() : null;
+
+// e.g. "Thu, Dec 11 at 09:00"
+export const formatReturnAt = (returnAt: string, timeZone: string) =>
+  formatInTimeZone(returnAt, timeZone, "EEE, MMM d 'at' HH:mm");
@@ -0,0 +1,32 @@
+import { addMinutes } from 'date-fns';
+import { fromZonedTime } from 'date-fns-tz';
+import { endOfDayInTimeZone, getTodayDateInTimeZone, getTodayInTimeZone } from '@/lib/dates';
+
+export const STATUS_EXPIRY_PRESETS = [
+  { value: '30', label: 'For 30 minutes' },
+  { value: '60', label: 'For 1 hour' },
+  { value: '120', label: 'For 2 hours' },
+  { value: '240', label: 'For 4 hours' },
+  { value: 'today', label: 'Rest of the day' },
+];
+
+export const isExpiryTime = (choice: string) => /^\d{2}:\d{2}$/.test(choice);
+
+// How long a status lasts: '' until it is changed, a number of minutes,
+// 'today' for the rest of the day, or a time of day as HH:mm
+export function getStatusExpiresAt(choice: string, timeZone: string, now = new Date()): Date | null {
+  if (!choice) return null;
+  if (choice === 'today') return endOfDayInTimeZone(getTodayDateInTimeZone(timeZone), timeZone);
+  if (isExpiryTime(choice)) return fromZonedTime(`${getTodayInTimeZone(timeZone)}T${choice}:00`, timeZone);
+  return addMinutes(now, Number(choice));
+}
+
+// e.g. "25 min left" or "1 h 20 min left"
+export function formatTimeLeft(expiresAt: Date, now = new Date()) {
+  const minutes = Math.max(1, Math.ceil((expiresAt.getTime() - now.getTime()) / 60000));
+  if (minutes < 60) return `${minutes} min left`;
+
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours} h ${rest} min left` : `${hours} h left`;
+}
@@ -0,0 +1,72 @@
+import {
+  Baby,
+  Briefcase,
+  Car,
+  CircleCheck,
+  CircleX,
+  Clock,
+  Coffee,
+  GraduationCap,
+  Home,
+  Laptop,
+  LucideIcon,
+  Plane,
+  Stethoscope,
+  Thermometer,
+  Users,
+} from 'lucide-react';
+
+export type StatusCategory = 'present' | 'away' | 'unavailable';
+
+export interface PredefinedStatus {
+  id: string;
+  status_text: string;
+  color: string | null;
+  icon: string | null;
+  category: StatusCategory;
+  // Takes up a desk towards the office capacity
+  counts_on_site: boolean;
+}
+
+export const STATUS_CATEGORIES: { value: StatusCategory; label: string; color: string }[] = [
+  { value: 'present', label: 'Present', color: '#22c55e' },
+  { value: 'away', label: 'Away', color: '#eab308' },
+  { value: 'unavailable', label: 'Unavailable', color: '#ef4444' },
+];
+
+export const STATUS_COLORS = [
+  '#22c55e',
+  '#14b8a6',
+  '#3b82f6',
+  '#a855f7',
+  '#ec4899',
+  '#eab308',
+  '#f97316',
+  '#ef4444',
+  '#64748b',
+];
+
+// Icons that can be picked for a status, stored in the database by name
+export const STATUS_ICONS: Record<string, LucideIcon> = {
+  CircleCheck,
+  CircleX,
+  Home,
+  Laptop,
+  Briefcase,
+  Users,
+  Car,
+  Plane,
+  Coffee,
+  Clock,
+  GraduationCap,
+  Thermometer,
+  Stethoscope,
+  Baby,
+};
+
+// Employee statuses are free text, so match predefined ones case-insensitively
+export const findStatusMeta = (statuses: PredefinedStatus[], statusText: string | null | undefined) => {
+  if (!statusText) return undefined;
+  const normalized = statusText.trim().toLowerCase();
+  return statuses.find((s) => s.status_text.trim().toLowerCase() === normalized);
+};
@@ -0,0 +1,351 @@
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+
+// Bump when the archive layout changes
+export const ARCHIVE_VERSION = 1;
+
+const profileSchema = z.object({
+  company_name: z.string().trim().min(1).max(100),
+  time_zone: z.string().min(1),
+  default_status: z.string().nullable(),
+  reset_time: z.string().nullable(),
+  holiday_status: z.string().trim().min(1).max(100).optional(),
+  office_capacity: z.number().int().positive().nullable(),
+});
+
+const departmentSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().trim().min(1).max(100),
+});
+
+const employeeSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().trim().min(1).max(100),
+  email: z.string().max(255).nullable(),
+  phone: z.string().max(50).nullable(),
+  status: z.string().nullable(),
+  image_url: z.string().nullable(),
+  recurring_enabled: z.boolean().nullable(),
+  department_id: z.string().uuid().nullable(),
+  sort_order: z.number().int(),
+});
+
+const predefinedStatusSchema = z.object({
+  status_text: z.string().trim().min(1),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/).nullable(),
+  icon: z.string().nullable(),
+  category: z.enum(['present', 'away', 'unavailable']),
+  counts_on_site: z.boolean(),
+  sort_order: z.number().int(),
+});
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+const timeSchema = z.string().regex(/^\d{2}:\d{2}(:\d{2})?$/).nullable();
+
+const scheduledStatusSchema = z.object({
+  employee_id: z.string().uuid(),
+  scheduled_date: dateSchema,
+  end_date: dateSchema,
+  skip_weekends: z.boolean(),
+  start_time: timeSchema,
+  end_time: timeSchema,
+  status_text: z.string().trim().min(1),
+});
+
+const recurringStatusSchema = z.object({
+  employee_id: z.string().uuid(),
+  day_of_week: z.number().int().min(0).max(6),
+  frequency: z.enum(['weekly', 'monthly']),
+  interval_weeks: z.number().int().min(1).max(12),
+  week_of_month: z.number().int().nullable(),
+  starts_on: dateSchema.nullable(),
+  ends_on: dateSchema.nullable(),
+  sort_order: z.number().int(),
+  start_time: timeSchema,
+  end_time: timeSchema,
+  status_text: z.string().trim().min(1),
+});
+
+const holidaySchema = z.object({
+  date: dateSchema,
+  name: z.string().trim().min(1).max(100),
+});
+
+export const tenantArchiveSchema = z
+  .object({
+    version: z.literal(ARCHIVE_VERSION),
+    exported_at: z.string(),
+    profile: profileSchema,
+    departments: z.array(departmentSchema),
+    employees: z.array(employeeSchema),
+    predefined_statuses: z.array(predefinedStatusSchema),
+    scheduled_statuses: z.array(scheduledStatusSchema),
+    recurring_statuses: z.array(recurringStatusSchema),
+    holidays: z.array(holidaySchema),
+    daily_message: z.string().nullable(),
+  })
+  .superRefine((archive, ctx) => {
+    const employeeIds = new Set(archive.employees.map((e) => e.id));
+    const departmentIds = new Set(archive.departments.map((d) => d.id));
+
+    archive.employees.forEach((employee, i) => {
+      if (employee.department_id && !departmentIds.has(employee.department_id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['employees', i, 'department_id'],
+          message: 'Unknown department',
+        });
+      }
+    });
+
+    (['scheduled_statuses', 'recurring_statuses'] as const).forEach((key) => {
+      archive[key].forEach((status, i) => {
+        if (!employeeIds.has(status.employee_id)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [key, i, 'employee_id'],
+            message: 'Unknown employee',
+          });
+        }
+      });
+    });
+  });
+
+export type TenantArchive = z.infer<typeof tenantArchiveSchema>;
+
+export async function buildTenantArchive(tenantId: string): Promise<TenantArchive> {
+  const [profile, departments, employees, predefined, scheduled, recurring, holidays, message] = await Promise.all([
+    supabase
+      .from('profiles')
+      .select('company_name, time_zone, default_status, reset_time, holiday_status, office_capacity')
+      .eq('id', tenantId)
+      .single(),
+    supabase.from('departments').select('id, name').eq('tenant_id', tenantId).order('name'),
+    supabase
+      .from('employees')
+      .select('id, name, email, phone, status, image_url, recurring_enabled, department_id, sort_order')
+      .eq('tenant_id', tenantId)
+      .order('sort_order'),
+    supabase
+      .from('predefined_statuses')
+      .select('status_text, color, icon, category, counts_on_site, sort_order')
+      .eq('tenant_id', tenantId)
+      .order('sort_order'),
+    supabase
+      .from('scheduled_statuses')
+      .select('employee_id, scheduled_date, end_date, skip_weekends, start_time, end_time, status_text')
+      .eq('tenant_id', tenantId)
+      .order('scheduled_date'),
+    supabase
+      .from('recurring_statuses')
+      .select('employee_id, day_of_week, frequency, interval_weeks, week_of_month, starts_on, ends_on, sort_order, start_time, end_time, status_text')
+      .eq('tenant_id', tenantId)
+      .order('sort_order'),
+    supabase.from('holidays').select('date, name').eq('tenant_id', tenantId).order('date'),
+    supabase.from('daily_messages').select('message_text').eq('tenant_id', tenantId).maybeSingle(),
+  ]);
+
+  for (const result of [profile, departments, employees, predefined, scheduled, recurring, holidays, message]) {
+    if (result.error) throw result.error;
+  }
+
+  return {
+    version: ARCHIVE_VERSION,
+    exported_at: new Date().toISOString(),
+    profile: profile.data!,
+    departments: departments.data || [],
+    employees: employees.data || [],
+    predefined_statuses: (predefined.data || []).map((s) => ({
+      ...s,
+      category: s.category as TenantArchive['predefined_statuses'][number]['category'],
+    })),
+    scheduled_statuses: scheduled.data || [],
+    recurring_statuses: (recurring.data || []).map((r) => ({
+      ...r,
+      frequency: r.frequency as TenantArchive['recurring_statuses'][number]['frequency'],
+    })),
+    holidays: holidays.data || [],
+    daily_message: message.data?.message_text ?? null,
+  };
+}
+
+// Returns the archive, or a readable description of the first problem
+export function parseTenantArchive(json: unknown): { archive: TenantArchive } | { error: string } {
+  const result = tenantArchiveSchema.safeParse(json);
+  if (result.success) return { archive: result.data };
+
+  const issue = result.error.issues[0];
+  const path = issue.path.join('.');
+  return { error: path ? `${path}: ${issue.message}` : issue.message };
+}
+
+// Restores an archive into a tenant that has no people or departments yet.
+// Rows get new ids, so the same archive can be restored into another account.
+export async function restoreTenantArchive(tenantId: string, archive: TenantArchive) {
+  const [{ count: employeeCount, error: employeeError }, { count: departmentCount, error: departmentError }] =
+    await Promise.all([
+      supabase.from('employees').select('id', { count: 'exact', head: true }).eq('tenant_id', tenantId),
+      supabase.from('departments').select('id', { count: 'exact', head: true }).eq('tenant_id', tenantId),
+    ]);
+
+  if (employeeError) throw employeeError;
+  if (departmentError) throw departmentError;
+  if (employeeCount || departmentCount) {
+    throw new Error('Restore needs an empty account without people or departments');
+  }
+
+  // Kept to put the account back the way it was if the restore fails part way
+  const [previousProfile, previousStatuses, previousHolidays, previousMessage] = await Promise.all([
+    supabase
+      .from('profiles')
+      .select('company_name, time_zone, default_status, reset_time, holiday_status, office_capacity')
+      .eq('id', tenantId)
+      .single(),
+    supabase
+      .from('predefined_statuses')
+      .select('status_text, color, icon, category, counts_on_site, sort_order')
+      .eq('tenant_id', tenantId),
+    supabase.from('holidays').select('date').eq('tenant_id', tenantId),
+    supabase.from('daily_messages').select('message_text').eq('tenant_id', tenantId).maybeSingle(),
+  ]);
+
+  for (const result of [previousProfile, previousStatuses, previousHolidays, previousMessage]) {
+    if (result.error) throw result.error;
+  }
+
+  const departmentIds = new Map(archive.departments.map((d) => [d.id, crypto.randomUUID()]));
+  const employeeIds = new Map(archive.employees.map((e) => [e.id, crypto.randomUUID()]));
+
+  try {
+    const { error: profileError } = await supabase
+      .from('profiles')
+      .update(archive.profile)
+      .eq('id', tenantId);
+    if (profileError) throw profileError;
+
+    if (archive.departments.length > 0) {
+      const { error } = await supabase.from('departments').insert(
+        archive.departments.map((d) => ({ id: departmentIds.get(d.id), tenant_id: tenantId, name: d.name }))
+      );
+      if (error) throw error;
+    }
+
+    if (archive.employees.length > 0) {
+      const { error } = await supabase.from('employees').insert(
+        archive.employees.map((e) => ({
+          id: employeeIds.get(e.id),
+          tenant_id: tenantId,
+          name: e.name,
+          email: e.email,
+          phone: e.phone,
+          status: e.status,
+          image_url: e.image_url,
+          recurring_enabled: e.recurring_enabled,
+          department_id: e.department_id ? departmentIds.get(e.department_id) : null,
+          sort_order: e.sort_order,
+        }))
+      );
+      if (error) throw error;
+    }
+
+    // The archive's status choices replace the defaults a new account starts with
+    if (archive.predefined_statuses.length > 0) {
+      const { error: deleteError } = await supabase.from('predefined_statuses').delete().eq('tenant_id', tenantId);
+      if (deleteError) throw deleteError;
+
+      const { error } = await supabase
+        .from('predefined_statuses')
+        .insert(archive.predefined_statuses.map((s) => ({
+          tenant_id: tenantId,
+          status_text: s.status_text,
+          color: s.color,
+          icon: s.icon,
+          category: s.category,
+          counts_on_site: s.counts_on_site,
+          sort_order: s.sort_order,
+        })));
+      if (error) throw error;
+    }
+
+    if (archive.scheduled_statuses.length > 0) {
+      const { error } = await supabase.from('scheduled_statuses').insert(
+        archive.scheduled_statuses.map((s) => ({
+          tenant_id: tenantId,
+          employee_id: employeeIds.get(s.employee_id),
+          scheduled_date: s.scheduled_date,
+          end_date: s.end_date,
+          skip_weekends: s.skip_weekends,
+          start_time: s.start_time,
+          end_time: s.end_time,
+          status_text: s.status_text,
+        }))
+      );
+      if (error) throw error;
+    }
+
+    if (archive.recurring_statuses.length > 0) {
+      const { error } = await supabase.from('recurring_statuses').insert(
+        archive.recurring_statuses.map((r) => ({
+          tenant_id: tenantId,
+          employee_id: employeeIds.get(r.employee_id),
+          day_of_week: r.day_of_week,
+          frequency: r.frequency,
+          interval_weeks: r.interval_weeks,
+          week_of_month: r.week_of_month,
+          starts_on: r.starts_on,
+          ends_on: r.ends_on,
+          sort_order: r.sort_order,
+          start_time: r.start_time,
+          end_time: r.end_time,
+          status_text: r.status_text,
+        }))
+      );
+      if (error) throw error;
+    }
+
+    if (archive.holidays.length > 0) {
+      const { error } = await supabase
+        .from('holidays')
+        .upsert(
+          archive.holidays.map((h) => ({ tenant_id: tenantId, date: h.date, name: h.name })),
+          { onConflict: 'tenant_id,date', ignoreDuplicates: true }
+        );
+      if (error) throw error;
+    }
+
+    if (archive.daily_message) {
+      const { error } = await supabase
+        .from('daily_messages')
+        .upsert({ tenant_id: tenantId, message_text: archive.daily_message }, { onConflict: 'tenant_id' });
+      if (error) throw error;
+    }
+  } catch (error) {
+    // Leave the account as it was before so the restore can simply be retried
+    await supabase.from('scheduled_statuses').delete().eq('tenant_id', tenantId);
+    await supabase.from('recurring_statuses').delete().eq('tenant_id', tenantId);
+    await supabase.from('employees').delete().eq('tenant_id', tenantId);
+    await supabase.from('departments').delete().eq('tenant_id', tenantId);
+    await supabase.from('profiles').update(previousProfile.data).eq('id', tenantId);
+    await supabase.from('predefined_statuses').delete().eq('tenant_id', tenantId);
+    if (previousStatuses.data.length > 0) {
+      await supabase
+        .from('predefined_statuses')
+        .insert(previousStatuses.data.map((s) => ({ ...s, tenant_id: tenantId })));
+    }
+
+    // Holidays the account already had were skipped, so only the added ones go
+    const holidayDates = previousHolidays.data.map((h) => h.date);
+    let holidaysQuery = supabase.from('holidays').delete().eq('tenant_id', tenantId);
+    if (holidayDates.length > 0) holidaysQuery = holidaysQuery.not('date', 'in', `(${holidayDates.join(',')})`);
+    await holidaysQuery;
+
+    if (previousMessage.data) {
+      await supabase
+        .from('daily_messages')
+        .upsert({ tenant_id: tenantId, message_text: previousMessage.data.message_text }, { onConflict: 'tenant_id' });
+    } else {
+      await supabase.from('daily_messages').delete().eq('tenant_id', tenantId);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,18 @@
+// Scheduled and recurring entries can have a start and end time. Both are
+// empty for a whole-day entry. The database returns times as HH:mm:ss.
+
+export const toTimeInput = (time: string | null) => (time ? time.slice(0, 5) : '');
+
+// Returns an error message, or null when the times are fine to save
+export function validateTimeRange(start: string, end: string): string | null {
+  if (!start && !end) return null;
+  if (!start || !end) return 'Pick both a start and an end time, or neither for the whole day';
+  if (end <= start) return 'The end time must be after the start time';
+  return null;
+}
+
+// e.g. "08:00-12:00", or null for a whole-day entry
+export function formatTimeRange(start: string | null, end: string | null) {
+  if (!start || !end) return null;
+  return `${toTimeInput(start)}-${toTimeInput(end)}`;
+}
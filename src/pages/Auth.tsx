@@ -9,6 +9,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
 import { Loader2 } from 'lucide-react';
+import { getBrowserTimeZone } from '@/lib/dates';
 
 import { z } from 'zod';
 
@@ -54,6 +55,7 @@ const Auth = () => {
           emailRedirectTo: redirectUrl,
           data: {
             company_name: validated.companyName,
+            time_zone: getBrowserTimeZone(),
           },
         },
       });
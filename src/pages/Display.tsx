@@ -0,0 +1,320 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { formatInTimeZone } from 'date-fns-tz';
+import { Loader2 } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { StatusBadge } from '@/components/StatusBadge';
+import { DEFAULT_TIME_ZONE } from '@/lib/dates';
+import { PredefinedStatus, StatusCategory, findStatusMeta } from '@/lib/statuses';
+import { cn } from '@/lib/utils';
+
+interface Employee {
+  id: string;
+  name: string;
+  status: string;
+  image_url: string | null;
+}
+
+interface DisplayBoard {
+  company_name: string;
+  time_zone: string;
+  message: string | null;
+  employees: Employee[];
+  statuses: PredefinedStatus[];
+}
+
+const MAX_RETRY_DELAY = 30000;
+// Full refetch as a safety net in case a broadcast was missed while the screen slept
+const REFRESH_INTERVAL = 5 * 60 * 1000;
+// Width / height of one tile (avatar above name and status)
+const TILE_ASPECT = 0.8;
+
+// Picks the column count that gives the largest tiles while fitting everyone on screen
+const getBestColumns = (count: number, width: number, height: number) => {
+  let bestColumns = 1;
+  let bestSize = 0;
+
+  for (let columns = 1; columns <= Math.max(count, 1); columns++) {
+    const rows = Math.ceil(count / columns);
+    const size = Math.min(width / columns, (height / rows) * TILE_ASPECT);
+    if (size > bestSize) {
+      bestSize = size;
+      bestColumns = columns;
+    }
+  }
+
+  return { columns: bestColumns, tileWidth: bestSize };
+};
+
+const getInitials = (name: string) => {
+  return name
+    .split(' ')
+    .map((n) => n[0])
+    .join('')
+    .toUpperCase()
+    .slice(0, 2);
+};
+
+const Display = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const { user, tenantId, companyName, timeZone, loading } = useAuth();
+  const [board, setBoard] = useState<DisplayBoard | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLive, setIsLive] = useState(false);
+  const [now, setNow] = useState(new Date());
+  const [viewport, setViewport] = useState({ width: window.innerWidth, height: window.innerHeight });
+
+  useEffect(() => {
+    if (!token && !loading && !user) {
+      navigate('/auth');
+    }
+  }, [token, loading, user, navigate]);
+
+  const loadBoard = useCallback(async () => {
+    try {
+      if (token) {
+        const { data, error } = await supabase.rpc('get_display_board', { p_token: token });
+        if (error) throw error;
+        setBoard(data as unknown as DisplayBoard);
+      } else {
+        if (!tenantId) return;
+
+        const [employeesResult, messageResult, statusesResult] = await Promise.all([
+          supabase
+            .from('employees')
+            .select('id, name, status, image_url')
+            .eq('tenant_id', tenantId)
+            .order('sort_order')
+            .order('name'),
+          supabase
+            .from('daily_messages')
+            .select('message_text')
+            .eq('tenant_id', tenantId)
+            .maybeSingle(),
+          supabase
+            .from('predefined_statuses')
+            .select('id, status_text, color, icon, category, counts_on_site')
+            .eq('tenant_id', tenantId)
+            .order('sort_order'),
+        ]);
+
+        if (employeesResult.error) throw employeesResult.error;
+
+        setBoard({
+          company_name: companyName || '',
+          time_zone: timeZone,
+          message: messageResult.data?.message_text || null,
+          employees: employeesResult.data || [],
+          statuses: (statusesResult.data || []).map((s) => ({ ...s, category: s.category as StatusCategory })),
+        });
+      }
+      setError(null);
+    } catch (error) {
+      console.error('Error loading display board:', error);
+      if ((error as { code?: string })?.code === '28000') {
+        setError('This display link is no longer valid. Ask an admin for a new one.');
+      }
+    }
+  }, [token, tenantId, companyName, timeZone]);
+
+  // Realtime subscription that reconnects with backoff whenever the channel drops
+  useEffect(() => {
+    if (!token && !tenantId) return;
+
+    let channel: RealtimeChannel | null = null;
+    let retryTimer: number | undefined;
+    let attempt = 0;
+    let disposed = false;
+
+    const scheduleReconnect = () => {
+      if (disposed || retryTimer) return;
+
+      const current = channel;
+      channel = null;
+      if (current) supabase.removeChannel(current);
+
+      const delay = Math.min(1000 * 2 ** attempt, MAX_RETRY_DELAY);
+      attempt++;
+      retryTimer = window.setTimeout(() => {
+        retryTimer = undefined;
+        connect();
+      }, delay);
+    };
+
+    const connect = () => {
+      const current = token
+        ? supabase
+            .channel(`display:${token}`)
+            .on('broadcast', { event: 'refresh' }, () => loadBoard())
+        : supabase
+            .channel(`display-board-${tenantId}`)
+            .on(
+              'postgres_changes',
+              { event: '*', schema: 'public', table: 'employees', filter: `tenant_id=eq.${tenantId}` },
+              () => loadBoard()
+            )
+            .on(
+              'postgres_changes',
+              { event: '*', schema: 'public', table: 'daily_messages', filter: `tenant_id=eq.${tenantId}` },
+              () => loadBoard()
+            )
+            .on(
+              'postgres_changes',
+              { event: '*', schema: 'public', table: 'predefined_statuses', filter: `tenant_id=eq.${tenantId}` },
+              () => loadBoard()
+            );
+
+      channel = current;
+      current.subscribe((status) => {
+        if (disposed || channel !== current) return;
+
+        if (status === 'SUBSCRIBED') {
+          attempt = 0;
+          setIsLive(true);
+          // Catch up on anything that changed while disconnected
+          loadBoard();
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+          setIsLive(false);
+          scheduleReconnect();
+        }
+      });
+    };
+
+    connect();
+
+    const handleOnline = () => {
+      attempt = 0;
+      scheduleReconnect();
+    };
+    window.addEventListener('online', handleOnline);
+    const refreshTimer = window.setInterval(loadBoard, REFRESH_INTERVAL);
+
+    return () => {
+      disposed = true;
+      window.clearTimeout(retryTimer);
+      window.clearInterval(refreshTimer);
+      window.removeEventListener('online', handleOnline);
+      if (channel) supabase.removeChannel(channel);
+    };
+  }, [token, tenantId, loadBoard]);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 1000);
+    const handleResize = () => setViewport({ width: window.innerWidth, height: window.innerHeight });
+    window.addEventListener('resize', handleResize);
+
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener('resize', handleResize);
+    };
+  }, []);
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-8">
+        <p className="text-2xl text-muted-foreground text-center">{error}</p>
+      </div>
+    );
+  }
+
+  if (!board) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const displayTimeZone = board.time_zone || DEFAULT_TIME_ZONE;
+  const headerHeight = viewport.height * 0.12;
+  const tickerHeight = board.message ? viewport.height * 0.08 : 0;
+  const gap = 16;
+  const { columns, tileWidth } = getBestColumns(
+    board.employees.length,
+    viewport.width - gap * 2,
+    viewport.height - headerHeight - tickerHeight - gap * 2
+  );
+  const tileSize = tileWidth - gap;
+
+  return (
+    <div className="h-screen w-screen overflow-hidden bg-background text-foreground flex flex-col cursor-none">
+      <header
+        className="flex items-center justify-between px-8 border-b border-border"
+        style={{ height: headerHeight }}
+      >
+        <div className="flex items-center gap-4">
+          <h1 className="font-bold" style={{ fontSize: headerHeight * 0.4 }}>
+            {board.company_name}
+          </h1>
+          <span
+            className={cn('h-3 w-3 rounded-full', isLive ? 'bg-primary' : 'bg-destructive animate-pulse')}
+            title={isLive ? 'Live' : 'Reconnecting...'}
+          />
+        </div>
+        <div className="text-right">
+          <div className="font-bold tabular-nums" style={{ fontSize: headerHeight * 0.45 }}>
+            {formatInTimeZone(now, displayTimeZone, 'HH:mm')}
+          </div>
+          <div className="text-muted-foreground" style={{ fontSize: headerHeight * 0.16 }}>
+            {formatInTimeZone(now, displayTimeZone, 'EEEE d MMMM')}
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 p-4 overflow-hidden">
+        <div
+          className="grid h-full content-center justify-center"
+          style={{ gridTemplateColumns: `repeat(${columns}, ${tileSize}px)`, gap }}
+        >
+          {board.employees.map((employee) => (
+            <div
+              key={employee.id}
+              className="flex flex-col items-center justify-center text-center rounded-lg bg-card border border-border p-2 min-w-0"
+              style={{ height: tileSize / TILE_ASPECT }}
+            >
+              <Avatar style={{ height: tileSize * 0.5, width: tileSize * 0.5 }}>
+                <AvatarImage src={employee.image_url || undefined} />
+                <AvatarFallback style={{ fontSize: tileSize * 0.16 }}>
+                  {getInitials(employee.name)}
+                </AvatarFallback>
+              </Avatar>
+              <div
+                className="font-semibold truncate w-full mt-2"
+                style={{ fontSize: Math.max(tileSize * 0.1, 12) }}
+              >
+                {employee.name}
+              </div>
+              <StatusBadge
+                status={employee.status}
+                meta={findStatusMeta(board.statuses, employee.status)}
+                className="mt-1"
+                style={{ fontSize: Math.max(tileSize * 0.08, 11) }}
+              />
+            </div>
+          ))}
+        </div>
+      </main>
+
+      {board.message && (
+        <footer
+          className="flex items-center overflow-hidden bg-accent text-accent-foreground"
+          style={{ height: tickerHeight }}
+        >
+          <div
+            className="whitespace-nowrap font-medium animate-ticker"
+            style={{ fontSize: tickerHeight * 0.45 }}
+          >
+            {board.message}
+          </div>
+        </footer>
+      )}
+    </div>
+  );
+};
+
+export default Display;
@@ -9,13 +9,31 @@ import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
-import { useAdminMode } from '@/contexts/AdminModeContext';
 import { toast } from 'sonner';
 import { ArrowLeft, Loader2, Upload, Trash2, Calendar as CalendarIcon, Plus, X } from 'lucide-react';
-import { format } from 'date-fns';
+import { eachDayOfInterval, format, isWeekend, parseISO } from 'date-fns';
+import { DateRange } from 'react-day-picker';
 import { cn } from '@/lib/utils';
+import { getTodayDateInTimeZone } from '@/lib/dates';
+import { EmployeeField, validateEmployeeField } from '@/lib/employee-validation';
+import { formatReturnAt, hasStatusDetails } from '@/lib/status-details';
+import { formatTimeRange, validateTimeRange } from '@/lib/time-range';
+import { findOverbookedDays, getEntryPeriod } from '@/lib/occupancy';
+import { StatusHistory } from '@/components/StatusHistory';
+import { CalendarFeed } from '@/components/CalendarFeed';
+import { AbsenceImport } from '@/components/AbsenceImport';
+import { RecurringRules } from '@/components/RecurringRules';
+import { StatusBadge } from '@/components/StatusBadge';
+import { StatusDetailsForm } from '@/components/StatusDetails';
+import { StatusTimeLeft } from '@/components/StatusTimeLeft';
+import { TimeRangeInput } from '@/components/TimeRangeInput';
+import { CapacityWarning, OccupancyForecast } from '@/components/Occupancy';
+import { usePredefinedStatuses } from '@/hooks/use-predefined-statuses';
+import { useDepartments } from '@/hooks/use-departments';
+import { useOccupancy, useOfficeOccupancy } from '@/hooks/use-office-occupancy';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -34,27 +52,31 @@ interface Employee {
   phone: string | null;
   email: string | null;
   status: string;
+  status_expires_at: string | null;
+  status_note: string | null;
+  status_return_at: string | null;
+  status_contact: string | null;
   image_url: string | null;
   recurring_enabled: boolean;
+  department_id: string | null;
 }
 
 interface ScheduledStatus {
   id: string;
   scheduled_date: string;
+  end_date: string;
+  skip_weekends: boolean;
+  start_time: string | null;
+  end_time: string | null;
   status_text: string;
 }
 
-interface RecurringStatus {
-  id: string;
-  day_of_week: number;
-  status_text: string;
-}
+const NO_DEPARTMENT = '__none__';
 
 const EmployeeProfile = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { user } = useAuth();
-  const { isAdminMode } = useAdminMode();
+  const { user, tenantId, timeZone, isAdmin, canEditEmployee } = useAuth();
   const [employee, setEmployee] = useState<Employee | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isUploading, setIsUploading] = useState(false);
@@ -64,14 +86,29 @@ const EmployeeProfile = () => {
     email: '',
   });
   const [scheduledStatuses, setScheduledStatuses] = useState<ScheduledStatus[]>([]);
-  const [predefinedStatuses, setPredefinedStatuses] = useState<string[]>([]);
-  const [newScheduledDate, setNewScheduledDate] = useState<Date | undefined>(undefined);
+  const { statusTexts: predefinedStatuses, getStatusMeta } = usePredefinedStatuses();
+  const { departments } = useDepartments();
+  const { capacity, occupancy, reload: reloadOccupancy } = useOfficeOccupancy();
+  const [newScheduledRange, setNewScheduledRange] = useState<DateRange | undefined>(undefined);
+  const [newScheduledSkipWeekends, setNewScheduledSkipWeekends] = useState(false);
   const [newScheduledStatus, setNewScheduledStatus] = useState('');
+  const [newScheduledStartTime, setNewScheduledStartTime] = useState('');
+  const [newScheduledEndTime, setNewScheduledEndTime] = useState('');
   const [showCustomStatusInput, setShowCustomStatusInput] = useState(false);
-  const [recurringStatuses, setRecurringStatuses] = useState<RecurringStatus[]>([]);
   const [recurringEnabled, setRecurringEnabled] = useState(false);
-  const [editingRecurringDay, setEditingRecurringDay] = useState<{ [key: number]: string }>({});
-  const [showCustomRecurringInput, setShowCustomRecurringInput] = useState<{ [key: number]: boolean }>({});
+  // Only an entry that takes up a desk in an office with a capacity needs checking
+  const checkNewScheduled = capacity !== null && !!newScheduledRange?.from && !!getStatusMeta(newScheduledStatus)?.counts_on_site;
+  const { occupancy: newScheduledOccupancy, reload: reloadNewScheduledOccupancy } = useOccupancy(
+    checkNewScheduled
+      ? getEntryPeriod(timeZone, newScheduledRange?.from, newScheduledRange?.to || newScheduledRange?.from)
+      : null
+  );
+
+  // Both the forecast and the check of the entry being added change with the schedule
+  const reloadOccupancies = () => {
+    reloadOccupancy();
+    reloadNewScheduledOccupancy();
+  };
 
   useEffect(() => {
     if (!user) {
@@ -79,13 +116,11 @@ const EmployeeProfile = () => {
       return;
     }
 
-    if (id) {
+    if (id && tenantId) {
       loadEmployee();
       loadScheduledStatuses();
-      loadPredefinedStatuses();
-      loadRecurringStatuses();
     }
-  }, [id, user, navigate]);
+  }, [id, user, tenantId, navigate]);
 
   const loadEmployee = async () => {
     try {
@@ -93,20 +128,11 @@ const EmployeeProfile = () => {
         .from('employees')
         .select('*')
         .eq('id', id)
-        .eq('tenant_id', user?.id)
+        .eq('tenant_id', tenantId)
         .single();
 
       if (error) throw error;
 
-      // Clear status tracking fields when profile is opened
-      await supabase
-        .from('employees')
-        .update({ 
-          already_applied: false,
-          applied_date: null 
-        })
-        .eq('id', id);
-
       setEmployee(data);
       setFormData({
         name: data.name,
@@ -126,37 +152,12 @@ const EmployeeProfile = () => {
   const debouncedUpdate = useCallback(
     (() => {
       let timeoutId: ReturnType<typeof setTimeout>;
-      return (field: 'name' | 'phone' | 'email', value: string) => {
+      return (field: EmployeeField, value: string) => {
         clearTimeout(timeoutId);
         timeoutId = setTimeout(async () => {
-          // Validate name
-          if (field === 'name' && !value.trim()) {
-            toast.error('Name cannot be empty');
-            return;
-          }
-
-          // Validate name length
-          if (field === 'name' && value.trim().length > 100) {
-            toast.error('Name must be less than 100 characters');
-            return;
-          }
-
-          // Validate email format
-          if (field === 'email' && value.trim()) {
-            const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-            if (!emailRegex.test(value.trim())) {
-              toast.error('Invalid email address');
-              return;
-            }
-            if (value.trim().length > 255) {
-              toast.error('Email must be less than 255 characters');
-              return;
-            }
-          }
-
-          // Validate phone length
-          if (field === 'phone' && value.trim().length > 50) {
-            toast.error('Phone number must be less than 50 characters');
+          const validationError = validateEmployeeField(field, value);
+          if (validationError) {
+            toast.error(validationError);
             return;
           }
 
@@ -177,11 +178,30 @@ const EmployeeProfile = () => {
     [id]
   );
 
-  const handleFieldChange = (field: 'name' | 'phone' | 'email', value: string) => {
+  const handleFieldChange = (field: EmployeeField, value: string) => {
     setFormData({ ...formData, [field]: value });
     debouncedUpdate(field, value);
   };
 
+  const handleDepartmentChange = async (value: string) => {
+    const departmentId = value === NO_DEPARTMENT ? null : value;
+
+    try {
+      const { error } = await supabase
+        .from('employees')
+        .update({ department_id: departmentId })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setEmployee((current) => current && { ...current, department_id: departmentId });
+      toast.success('Department updated');
+    } catch (error) {
+      console.error('Error updating department:', error);
+      toast.error('Failed to update department');
+    }
+  };
+
   const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -195,7 +215,7 @@ const EmployeeProfile = () => {
     try {
       const fileExt = file.name.split('.').pop();
       const fileName = `${id}-${Date.now()}.${fileExt}`;
-      const filePath = `${user?.id}/${fileName}`;
+      const filePath = `${tenantId}/${fileName}`;
 
       const { error: uploadError } = await supabase.storage
         .from('employee-images')
@@ -224,69 +244,109 @@ const EmployeeProfile = () => {
     }
   };
 
-  const loadScheduledStatuses = async () => {
+  // Clear the status tracking fields and let the server re-apply today's status
+  const reapplyTodaysStatus = async () => {
     try {
-      const { data, error } = await supabase
-        .from('scheduled_statuses')
-        .select('*')
-        .eq('employee_id', id)
-        .eq('tenant_id', user?.id)
-        .order('scheduled_date', { ascending: true });
+      const { error: resetError } = await supabase
+        .from('employees')
+        .update({ 
+          already_applied: false,
+          applied_date: null 
+        })
+        .eq('id', id);
 
-      if (error) throw error;
+      if (resetError) throw resetError;
 
-      setScheduledStatuses(data || []);
+      const { error } = await supabase.rpc('apply_daily_statuses');
+
+      if (error) throw error;
     } catch (error) {
-      console.error('Error loading scheduled statuses:', error);
+      console.error('Error applying statuses:', error);
     }
   };
 
-  const loadPredefinedStatuses = async () => {
-    if (!user) return;
-
+  const loadScheduledStatuses = async () => {
     try {
       const { data, error } = await supabase
-        .from('predefined_statuses')
-        .select('status_text')
-        .eq('tenant_id', user.id)
-        .order('created_at');
+        .from('scheduled_statuses')
+        .select('*')
+        .eq('employee_id', id)
+        .eq('tenant_id', tenantId)
+        .order('scheduled_date', { ascending: true });
 
       if (error) throw error;
 
-      setPredefinedStatuses(data?.map(s => s.status_text) || []);
+      setScheduledStatuses(data || []);
     } catch (error) {
-      console.error('Error loading predefined statuses:', error);
+      console.error('Error loading scheduled statuses:', error);
     }
   };
 
   const handleAddScheduledStatus = async () => {
-    if (!newScheduledDate || !newScheduledStatus.trim()) {
+    if (!newScheduledRange?.from || !newScheduledStatus.trim()) {
       toast.error('Please select a date and enter a status');
       return;
     }
 
+    const timeError = validateTimeRange(newScheduledStartTime, newScheduledEndTime);
+    if (timeError) {
+      toast.error(timeError);
+      return;
+    }
+
     try {
       const { error } = await supabase
         .from('scheduled_statuses')
         .insert({
           employee_id: id,
-          tenant_id: user?.id,
-          scheduled_date: format(newScheduledDate, 'yyyy-MM-dd'),
+          tenant_id: tenantId,
+          scheduled_date: format(newScheduledRange.from, 'yyyy-MM-dd'),
+          end_date: format(newScheduledRange.to || newScheduledRange.from, 'yyyy-MM-dd'),
+          skip_weekends: newScheduledSkipWeekends,
+          start_time: newScheduledStartTime || null,
+          end_time: newScheduledEndTime || null,
           status_text: newScheduledStatus.trim(),
         });
 
       if (error) throw error;
 
       toast.success('Scheduled status added');
-      setNewScheduledDate(undefined);
+      setNewScheduledRange(undefined);
+      setNewScheduledSkipWeekends(false);
       setNewScheduledStatus('');
+      setNewScheduledStartTime('');
+      setNewScheduledEndTime('');
       loadScheduledStatuses();
+      reapplyTodaysStatus();
+      reloadOccupancies();
     } catch (error) {
       console.error('Error adding scheduled status:', error);
       toast.error('Failed to add scheduled status');
     }
   };
 
+  // Days the entry being added would put someone in an office that is already full
+  const getOverbookedScheduledDays = () => {
+    if (!checkNewScheduled || !newScheduledRange?.from) return [];
+
+    const days = eachDayOfInterval({ start: newScheduledRange.from, end: newScheduledRange.to || newScheduledRange.from })
+      .filter((day) => !(newScheduledSkipWeekends && isWeekend(day)))
+      .map((day) => format(day, 'yyyy-MM-dd'));
+
+    return findOverbookedDays(newScheduledOccupancy, capacity, id || '', days);
+  };
+
+  const formatScheduledRange = (scheduled: ScheduledStatus) => {
+    const start = parseISO(scheduled.scheduled_date);
+    const end = parseISO(scheduled.end_date);
+    const range = scheduled.end_date === scheduled.scheduled_date
+      ? format(start, 'MMM dd, yyyy')
+      : `${format(start, 'MMM dd')} - ${format(end, 'MMM dd, yyyy')}`;
+    const times = formatTimeRange(scheduled.start_time, scheduled.end_time);
+    const withTimes = times ? `${range}, ${times}` : range;
+    return scheduled.skip_weekends ? `${withTimes} (weekdays)` : withTimes;
+  };
+
   const handleDeleteScheduledStatus = async (statusId: string) => {
     try {
       const { error } = await supabase
@@ -298,29 +358,14 @@ const EmployeeProfile = () => {
 
       toast.success('Scheduled status removed');
       loadScheduledStatuses();
+      reapplyTodaysStatus();
+      reloadOccupancies();
     } catch (error) {
       console.error('Error deleting scheduled status:', error);
       toast.error('Failed to remove scheduled status');
     }
   };
 
-  const loadRecurringStatuses = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('recurring_statuses')
-        .select('*')
-        .eq('employee_id', id)
-        .eq('tenant_id', user?.id)
-        .order('day_of_week');
-
-      if (error) throw error;
-
-      setRecurringStatuses(data || []);
-    } catch (error) {
-      console.error('Error loading recurring statuses:', error);
-    }
-  };
-
   const handleToggleRecurring = async (enabled: boolean) => {
     try {
       const { error } = await supabase
@@ -332,49 +377,14 @@ const EmployeeProfile = () => {
 
       setRecurringEnabled(enabled);
       toast.success(enabled ? 'Recurring statuses enabled' : 'Recurring statuses disabled');
+      reapplyTodaysStatus();
+      reloadOccupancies();
     } catch (error) {
       console.error('Error updating recurring enabled:', error);
       toast.error('Failed to update setting');
     }
   };
 
-  const handleSaveRecurringStatus = async (dayOfWeek: number, statusText: string) => {
-    try {
-      const existing = recurringStatuses.find(rs => rs.day_of_week === dayOfWeek);
-      
-      if (statusText.trim() === '') {
-        // Delete if empty
-        if (existing) {
-          const { error } = await supabase
-            .from('recurring_statuses')
-            .delete()
-            .eq('id', existing.id);
-
-          if (error) throw error;
-        }
-      } else {
-        // Insert or update
-        const { error } = await supabase
-          .from('recurring_statuses')
-          .upsert({
-            id: existing?.id,
-            employee_id: id,
-            tenant_id: user?.id,
-            day_of_week: dayOfWeek,
-            status_text: statusText.trim(),
-          });
-
-        if (error) throw error;
-      }
-
-      loadRecurringStatuses();
-      setEditingRecurringDay({});
-    } catch (error) {
-      console.error('Error saving recurring status:', error);
-      toast.error('Failed to save recurring status');
-    }
-  };
-
   const handleDelete = async () => {
     try {
       const { error } = await supabase
@@ -404,6 +414,9 @@ const EmployeeProfile = () => {
     return null;
   }
 
+  // Members can only change their own status and schedule; the rest of the profile is up to admins
+  const canEdit = canEditEmployee(employee.id);
+
   const initials = employee.name
     .split(' ')
     .map((n) => n[0])
@@ -433,35 +446,37 @@ const EmployeeProfile = () => {
                 <AvatarImage src={employee.image_url || undefined} />
                 <AvatarFallback className="text-3xl">{initials}</AvatarFallback>
               </Avatar>
-              <div>
-                <input
-                  type="file"
-                  id="image-upload"
-                  accept="image/*"
-                  onChange={handleImageUpload}
-                  className="hidden"
-                  disabled={isUploading}
-                />
-                <Label htmlFor="image-upload">
-                  <Button
-                    variant="outline"
+              {isAdmin && (
+                <div>
+                  <input
+                    type="file"
+                    id="image-upload"
+                    accept="image/*"
+                    onChange={handleImageUpload}
+                    className="hidden"
                     disabled={isUploading}
-                    onClick={() => document.getElementById('image-upload')?.click()}
-                  >
-                    {isUploading ? (
-                      <>
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Uploading...
-                      </>
-                    ) : (
-                      <>
-                        <Upload className="mr-2 h-4 w-4" />
-                        Upload Picture
-                      </>
-                    )}
-                  </Button>
-                </Label>
-              </div>
+                  />
+                  <Label htmlFor="image-upload">
+                    <Button
+                      variant="outline"
+                      disabled={isUploading}
+                      onClick={() => document.getElementById('image-upload')?.click()}
+                    >
+                      {isUploading ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Uploading...
+                        </>
+                      ) : (
+                        <>
+                          <Upload className="mr-2 h-4 w-4" />
+                          Upload Picture
+                        </>
+                      )}
+                    </Button>
+                  </Label>
+                </div>
+              )}
             </div>
 
             <div className="space-y-4">
@@ -471,6 +486,7 @@ const EmployeeProfile = () => {
                   id="name"
                   value={formData.name}
                   onChange={(e) => handleFieldChange('name', e.target.value)}
+                  disabled={!isAdmin}
                 />
               </div>
 
@@ -482,6 +498,7 @@ const EmployeeProfile = () => {
                   placeholder="(555) 123-4567"
                   value={formData.phone}
                   onChange={(e) => handleFieldChange('phone', e.target.value)}
+                  disabled={!isAdmin}
                 />
               </div>
 
@@ -493,9 +510,69 @@ const EmployeeProfile = () => {
                   placeholder="john@example.com"
                   value={formData.email}
                   onChange={(e) => handleFieldChange('email', e.target.value)}
+                  disabled={!isAdmin}
                 />
               </div>
+
+              {departments.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="department">Department</Label>
+                  <Select
+                    value={employee.department_id || NO_DEPARTMENT}
+                    onValueChange={handleDepartmentChange}
+                    disabled={!isAdmin}
+                  >
+                    <SelectTrigger id="department">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_DEPARTMENT}>No department</SelectItem>
+                      {departments.map((department) => (
+                        <SelectItem key={department.id} value={department.id}>
+                          {department.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle>Current Status</CardTitle>
+              <div className="flex items-center gap-2">
+                <StatusBadge status={employee.status} meta={getStatusMeta(employee.status)} />
+                {employee.status_expires_at && <StatusTimeLeft expiresAt={employee.status_expires_at} />}
+              </div>
             </div>
+          </CardHeader>
+          <CardContent>
+            {canEdit ? (
+              <StatusDetailsForm
+                key={employee.status}
+                employeeId={employee.id}
+                details={employee}
+                onSaved={loadEmployee}
+              />
+            ) : hasStatusDetails(employee) ? (
+              <div className="space-y-1 text-sm">
+                {employee.status_note && <p>{employee.status_note}</p>}
+                {employee.status_return_at && (
+                  <p className="text-muted-foreground">Back {formatReturnAt(employee.status_return_at, timeZone)}</p>
+                )}
+                {employee.status_contact && (
+                  <p className="text-muted-foreground">Contact: {employee.status_contact}</p>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                No details for this status
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -504,79 +581,106 @@ const EmployeeProfile = () => {
             <CardTitle>Scheduled Statuses</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="space-y-3">
-              <div className="flex gap-2">
-                <Popover>
-                  <PopoverTrigger asChild>
-                    <Button
-                      variant="outline"
-                      className={cn(
-                        "flex-1 justify-start text-left font-normal",
-                        !newScheduledDate && "text-muted-foreground"
-                      )}
-                    >
-                      <CalendarIcon className="mr-2 h-4 w-4" />
-                      {newScheduledDate ? format(newScheduledDate, "PPP") : <span>Pick a date</span>}
-                    </Button>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-auto p-0" align="start">
-                    <Calendar
-                      mode="single"
-                      selected={newScheduledDate}
-                      onSelect={setNewScheduledDate}
-                      disabled={(date) => date < new Date(new Date().setHours(0, 0, 0, 0))}
-                      initialFocus
-                      className={cn("p-3 pointer-events-auto")}
+            {canEdit && (
+              <div className="space-y-3">
+                <div className="flex gap-2">
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        variant="outline"
+                        className={cn(
+                          "flex-1 justify-start text-left font-normal",
+                          !newScheduledRange?.from && "text-muted-foreground"
+                        )}
+                      >
+                        <CalendarIcon className="mr-2 h-4 w-4" />
+                        {newScheduledRange?.from ? (
+                          newScheduledRange.to && newScheduledRange.to.getTime() !== newScheduledRange.from.getTime()
+                            ? `${format(newScheduledRange.from, "MMM dd")} - ${format(newScheduledRange.to, "MMM dd, yyyy")}`
+                            : format(newScheduledRange.from, "PPP")
+                        ) : (
+                          <span>Pick dates</span>
+                        )}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="range"
+                        selected={newScheduledRange}
+                        onSelect={setNewScheduledRange}
+                        disabled={(date) => date < getTodayDateInTimeZone(timeZone)}
+                        initialFocus
+                        className={cn("p-3 pointer-events-auto")}
+                      />
+                    </PopoverContent>
+                  </Popover>
+
+                  {showCustomStatusInput ? (
+                    <Input
+                      value={newScheduledStatus}
+                      onChange={(e) => setNewScheduledStatus(e.target.value)}
+                      placeholder="Enter custom status"
+                      className="flex-1"
                     />
-                  </PopoverContent>
-                </Popover>
-
-                {showCustomStatusInput ? (
-                  <Input
-                    value={newScheduledStatus}
-                    onChange={(e) => setNewScheduledStatus(e.target.value)}
-                    placeholder="Enter custom status"
-                    className="flex-1"
-                  />
-                ) : (
-                  <Select 
-                    value={predefinedStatuses.includes(newScheduledStatus) ? newScheduledStatus : '__placeholder__'} 
-                    onValueChange={(value) => {
-                      if (value === '__custom__') {
-                        setShowCustomStatusInput(true);
-                        setNewScheduledStatus('');
-                      } else {
-                        setNewScheduledStatus(value);
-                      }
-                    }}
+                  ) : (
+                    <Select 
+                      value={predefinedStatuses.includes(newScheduledStatus) ? newScheduledStatus : '__placeholder__'} 
+                      onValueChange={(value) => {
+                        if (value === '__custom__') {
+                          setShowCustomStatusInput(true);
+                          setNewScheduledStatus('');
+                        } else {
+                          setNewScheduledStatus(value);
+                        }
+                      }}
+                    >
+                      <SelectTrigger className="flex-1">
+                        <SelectValue placeholder={!predefinedStatuses.includes(newScheduledStatus) && newScheduledStatus ? newScheduledStatus : 'Select status'} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {predefinedStatuses.map((status) => (
+                          <SelectItem key={status} value={status}>
+                            <StatusBadge status={status} meta={getStatusMeta(status)} />
+                          </SelectItem>
+                        ))}
+                        <SelectItem value="__custom__">Custom...</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+
+                  <Button
+                    onClick={() => setShowCustomStatusInput(!showCustomStatusInput)}
+                    variant="secondary"
+                    size="icon"
                   >
-                    <SelectTrigger className="flex-1">
-                      <SelectValue placeholder={!predefinedStatuses.includes(newScheduledStatus) && newScheduledStatus ? newScheduledStatus : 'Select status'} />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {predefinedStatuses.map((status) => (
-                        <SelectItem key={status} value={status}>
-                          {status}
-                        </SelectItem>
-                      ))}
-                      <SelectItem value="__custom__">Custom...</SelectItem>
-                    </SelectContent>
-                  </Select>
-                )}
+                    {showCustomStatusInput ? '☰' : '✎'}
+                  </Button>
 
-                <Button
-                  onClick={() => setShowCustomStatusInput(!showCustomStatusInput)}
-                  variant="secondary"
-                  size="icon"
-                >
-                  {showCustomStatusInput ? '☰' : '✎'}
-                </Button>
-
-                <Button onClick={handleAddScheduledStatus} size="icon">
-                  <Plus className="h-4 w-4" />
-                </Button>
+                  <Button onClick={handleAddScheduledStatus} size="icon">
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="skip-weekends"
+                    checked={newScheduledSkipWeekends}
+                    onCheckedChange={(checked) => setNewScheduledSkipWeekends(checked === true)}
+                  />
+                  <Label htmlFor="skip-weekends" className="text-sm font-normal">
+                    Skip weekends
+                  </Label>
+                </div>
+                <TimeRangeInput
+                  start={newScheduledStartTime}
+                  end={newScheduledEndTime}
+                  onChange={(start, end) => {
+                    setNewScheduledStartTime(start);
+                    setNewScheduledEndTime(end);
+                  }}
+                />
+                <CapacityWarning days={getOverbookedScheduledDays()} capacity={capacity} />
               </div>
-            </div>
+            )}
 
             {scheduledStatuses.length > 0 ? (
               <div className="space-y-2">
@@ -587,19 +691,19 @@ const EmployeeProfile = () => {
                   >
                     <div className="flex gap-3">
                       <span className="font-medium">
-                        {format(new Date(scheduled.scheduled_date), 'MMM dd, yyyy')}
-                      </span>
-                      <span className="text-muted-foreground">
-                        {scheduled.status_text}
+                        {formatScheduledRange(scheduled)}
                       </span>
+                      <StatusBadge status={scheduled.status_text} meta={getStatusMeta(scheduled.status_text)} />
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => handleDeleteScheduledStatus(scheduled.id)}
-                    >
-                      <X className="h-4 w-4" />
-                    </Button>
+                    {canEdit && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDeleteScheduledStatus(scheduled.id)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
                 ))}
               </div>
@@ -611,6 +715,17 @@ const EmployeeProfile = () => {
           </CardContent>
         </Card>
 
+        {canEdit && (
+          <AbsenceImport
+            tenantId={tenantId || ''}
+            employeeId={employee.id}
+            onImported={() => {
+              loadScheduledStatuses();
+              reloadOccupancies();
+            }}
+          />
+        )}
+
         <Card>
           <CardHeader>
             <div className="flex items-center justify-between">
@@ -623,91 +738,49 @@ const EmployeeProfile = () => {
                   id="recurring-toggle"
                   checked={recurringEnabled}
                   onCheckedChange={handleToggleRecurring}
+                  disabled={!canEdit}
                 />
               </div>
             </div>
           </CardHeader>
           <CardContent>
-            <div className="space-y-2">
-              {[
-                { day: 'Monday', dayOfWeek: 1 },
-                { day: 'Tuesday', dayOfWeek: 2 },
-                { day: 'Wednesday', dayOfWeek: 3 },
-                { day: 'Thursday', dayOfWeek: 4 },
-                { day: 'Friday', dayOfWeek: 5 },
-                { day: 'Saturday', dayOfWeek: 6 },
-                { day: 'Sunday', dayOfWeek: 0 },
-              ].map(({ day, dayOfWeek }) => {
-                const existing = recurringStatuses.find(rs => rs.day_of_week === dayOfWeek);
-                const isEditing = editingRecurringDay[dayOfWeek] !== undefined;
-                const currentValue = isEditing ? editingRecurringDay[dayOfWeek] : (existing?.status_text || '');
-                const showCustom = showCustomRecurringInput[dayOfWeek] || false;
-
-                return (
-                  <div key={day} className="flex items-center gap-2 p-2 rounded-lg border border-border">
-                    <span className="font-medium w-24">{day}</span>
-                    
-                    {showCustom ? (
-                      <Input
-                        value={currentValue}
-                        onChange={(e) => setEditingRecurringDay({ ...editingRecurringDay, [dayOfWeek]: e.target.value })}
-                        onBlur={() => {
-                          if (isEditing) {
-                            handleSaveRecurringStatus(dayOfWeek, currentValue);
-                          }
-                        }}
-                        onKeyDown={(e) => {
-                          if (e.key === 'Enter') {
-                            handleSaveRecurringStatus(dayOfWeek, currentValue);
-                          }
-                        }}
-                        placeholder="Enter custom status"
-                        className="flex-1"
-                      />
-                    ) : (
-                      <Select
-                        value={predefinedStatuses.includes(currentValue) ? currentValue : '__placeholder__'}
-                        onValueChange={(value) => {
-                          if (value === '__custom__') {
-                            setShowCustomRecurringInput({ ...showCustomRecurringInput, [dayOfWeek]: true });
-                            setEditingRecurringDay({ ...editingRecurringDay, [dayOfWeek]: '' });
-                          } else {
-                            handleSaveRecurringStatus(dayOfWeek, value);
-                          }
-                        }}
-                      >
-                        <SelectTrigger className="flex-1">
-                          <SelectValue placeholder={currentValue || 'Select status'} />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {predefinedStatuses.map((status) => (
-                            <SelectItem key={status} value={status}>
-                              {status}
-                            </SelectItem>
-                          ))}
-                          <SelectItem value="__custom__">Custom...</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    )}
-
-                    <Button
-                      onClick={() => setShowCustomRecurringInput({ ...showCustomRecurringInput, [dayOfWeek]: !showCustom })}
-                      variant="secondary"
-                      size="icon"
-                    >
-                      {showCustom ? '☰' : '✎'}
-                    </Button>
-                  </div>
-                );
-              })}
-            </div>
+            <RecurringRules
+              tenantId={tenantId || ''}
+              employeeId={employee.id}
+              canEdit={canEdit}
+              capacity={capacity}
+              occupancy={occupancy}
+              onChange={() => {
+                reapplyTodaysStatus();
+                reloadOccupancies();
+              }}
+            />
             <p className="text-sm text-muted-foreground mt-4">
-              When enabled, these statuses will automatically apply based on the current day of the week.
+              When enabled, the first rule in the list that matches the day applies.
+              Drag the rules to change their order.
             </p>
           </CardContent>
         </Card>
 
-        {isAdminMode && (
+        {capacity !== null && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Office Occupancy</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <OccupancyForecast capacity={capacity} occupancy={occupancy} />
+              <p className="text-xs text-muted-foreground">
+                People expected in the office over the next four weeks, out of {capacity} desks.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        <StatusHistory employeeId={employee.id} />
+
+        {canEdit && <CalendarFeed tenantId={tenantId || ''} employeeId={employee.id} />}
+
+        {isAdmin && (
           <AlertDialog>
             <AlertDialogTrigger asChild>
               <Button variant="destructive" className="w-full">
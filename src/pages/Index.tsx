@@ -1,19 +1,24 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
-import { Loader2, Settings, LayoutGrid, Table as TableIcon } from 'lucide-react';
-import { useAdminMode } from '@/contexts/AdminModeContext';
+import { BarChart3, CalendarDays, Loader2, Settings, LayoutGrid, Monitor, Table as TableIcon, User as UserIcon } from 'lucide-react';
 import { useDailyMessageVisibility } from '@/contexts/DailyMessageVisibilityContext';
 import EmployeeTable from '@/components/EmployeeTable';
 import EmployeeCardView from '@/components/EmployeeCardView';
 import AddEmployeeDialog from '@/components/AddEmployeeDialog';
 import { DailyMessage } from '@/components/DailyMessage';
 import { Footer } from '@/components/Footer';
+import { StatusSummary } from '@/components/StatusSummary';
+import { usePredefinedStatuses } from '@/hooks/use-predefined-statuses';
+import { useDepartments } from '@/hooks/use-departments';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { BoardFilterBar } from '@/components/BoardFilterBar';
+import { BulkActionBar } from '@/components/BulkActionBar';
+import { BoardFilters, NO_DEPARTMENT, filterEmployees, parseBoardFilters, toSearchParams } from '@/lib/board-filters';
 
 interface Employee {
   id: string;
@@ -21,21 +26,33 @@ interface Employee {
   phone: string | null;
   email: string | null;
   status: string;
+  status_expires_at: string | null;
+  status_note: string | null;
+  status_return_at: string | null;
+  status_contact: string | null;
+  next_status: string | null;
+  next_status_change_at: string | null;
   image_url: string | null;
+  department_id: string | null;
 }
 
 const Index = () => {
   const navigate = useNavigate();
-  const { user, companyName, signOut, loading } = useAuth();
-  const { isAdminMode } = useAdminMode();
+  const { user, tenantId, isAdmin, companyName, signOut, loading } = useAuth();
   const { isVisible: isDailyMessageVisible } = useDailyMessageVisibility();
+  const { statuses } = usePredefinedStatuses();
+  const { departments } = useDepartments();
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [viewMode, setViewMode] = useState<'table' | 'cards'>(() => {
     const saved = localStorage.getItem('viewMode');
     return (saved === 'cards' || saved === 'table') ? saved : 'table';
   });
 
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = parseBoardFilters(searchParams);
+
   useEffect(() => {
     localStorage.setItem('viewMode', viewMode);
   }, [viewMode]);
@@ -46,14 +63,14 @@ const Index = () => {
       return;
     }
 
-    if (user) {
+    if (user && tenantId) {
       loadEmployees();
     }
-  }, [user, loading, navigate]);
+  }, [user, tenantId, loading, navigate]);
 
   // Set up realtime subscription for employee changes
   useEffect(() => {
-    if (!user) return;
+    if (!tenantId) return;
 
     const channel = supabase
       .channel('employees-changes')
@@ -63,28 +80,19 @@ const Index = () => {
           event: '*',
           schema: 'public',
           table: 'employees',
-          filter: `tenant_id=eq.${user.id}`
+          filter: `tenant_id=eq.${tenantId}`
         },
         async (payload) => {
           console.log('Employee change detected:', payload);
-          
-          // If already_applied was cleared, trigger full reload with status application
-          if (payload.eventType === 'UPDATE' && 
-              payload.new.already_applied === false && 
-              payload.old.already_applied !== false) {
-            console.log('Status tracking cleared, reapplying statuses');
-            loadEmployees();
-          } else {
-            // Otherwise just refetch data
-            const { data, error } = await supabase
-              .from('employees')
-              .select('*')
-              .eq('tenant_id', user.id)
-              .order('created_at', { ascending: true });
 
-            if (!error) {
-              setEmployees(data || []);
-            }
+          const { data, error } = await supabase
+            .from('employees')
+            .select('*')
+            .eq('tenant_id', tenantId)
+            .order('sort_order', { ascending: true });
+
+          if (!error) {
+            setEmployees(data || []);
           }
         }
       )
@@ -93,45 +101,24 @@ const Index = () => {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [user]);
+  }, [tenantId]);
 
   const loadEmployees = async () => {
-    if (!user) return;
+    if (!tenantId) return;
 
     setIsLoading(true);
     try {
-      const today = new Date().toISOString().split('T')[0];
-
-      // Step 1: Get employees that haven't been processed today
-      const { data: allEmployees, error: fetchError } = await supabase
-        .from('employees')
-        .select('*')
-        .eq('tenant_id', user.id);
-
-      if (fetchError) throw fetchError;
-
-      const employeesToProcess = allEmployees?.filter(emp => 
-        !emp.already_applied || emp.applied_date !== today
-      ) || [];
-
-      // Step 2 & 3: Apply statuses for employees that need processing
-      // IMPORTANT: Apply scheduled statuses FIRST so they take priority over recurring
-      if (employeesToProcess.length > 0) {
-        await applyScheduledStatuses(employeesToProcess.map(e => e.id), today);
-        await applyRecurringStatuses(employeesToProcess.map(e => e.id), today);
-      }
-
-      // Fetch updated employee data
+      // Scheduled and recurring statuses are applied server-side by apply_daily_statuses
       const { data, error } = await supabase
         .from('employees')
         .select('*')
-        .eq('tenant_id', user.id)
-        .order('created_at', { ascending: true });
+        .eq('tenant_id', tenantId)
+        .order('sort_order', { ascending: true });
 
       if (error) throw error;
 
       setEmployees(data || []);
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error loading employees:', error);
       const { data: { session } } = await supabase.auth.getSession();
       if (session) {
@@ -142,105 +129,25 @@ const Index = () => {
     }
   };
 
-  const applyScheduledStatuses = async (employeeIds: string[], today: string) => {
-    if (!user) return;
-
-    try {
-      console.log('[applyScheduledStatuses] Processing for date:', today);
-      console.log('[applyScheduledStatuses] Employee IDs:', employeeIds);
-      
-      // Get scheduled statuses for today for the specified employees
-      const { data: scheduledStatuses, error: fetchError } = await supabase
-        .from('scheduled_statuses')
-        .select('*')
-        .eq('tenant_id', user.id)
-        .eq('scheduled_date', today)
-        .in('employee_id', employeeIds);
-
-      if (fetchError) throw fetchError;
-      
-      console.log('[applyScheduledStatuses] Found scheduled statuses for today:', scheduledStatuses);
-      
-      if (!scheduledStatuses || scheduledStatuses.length === 0) return;
-
-      // Step 3: Update employee statuses with scheduled status
-      for (const status of scheduledStatuses) {
-        await supabase
-          .from('employees')
-          .update({ 
-            status: status.status_text,
-            already_applied: true,
-            applied_date: today
-          })
-          .eq('id', status.employee_id);
-      }
-
-      // Delete only past scheduled statuses (before today)
-      console.log('[applyScheduledStatuses] Deleting statuses before:', today);
-      
-      const { data: deletedStatuses, error: deleteError } = await supabase
-        .from('scheduled_statuses')
-        .select('*')
-        .eq('tenant_id', user.id)
-        .lt('scheduled_date', today);
-      
-      console.log('[applyScheduledStatuses] Statuses to be deleted:', deletedStatuses);
-      
-      await supabase
-        .from('scheduled_statuses')
-        .delete()
-        .eq('tenant_id', user.id)
-        .lt('scheduled_date', today);
-
-    } catch (error: any) {
-      console.error('Error applying scheduled statuses:', error);
-    }
+  // Replace rather than push, so typing in the search box doesn't flood the history
+  const handleFiltersChange = (next: BoardFilters) => {
+    setSearchParams(toSearchParams(next), { replace: true });
   };
 
-  const applyRecurringStatuses = async (employeeIds: string[], today: string) => {
-    if (!user) return;
-
-    try {
-      const currentDayOfWeek = new Date().getDay();
-
-      // Get recurring statuses for today's day of week for the specified employees
-      const { data: recurringStatuses, error: recurringError } = await supabase
-        .from('recurring_statuses')
-        .select('*')
-        .eq('tenant_id', user.id)
-        .eq('day_of_week', currentDayOfWeek)
-        .in('employee_id', employeeIds);
-
-      if (recurringError) throw recurringError;
-      if (!recurringStatuses || recurringStatuses.length === 0) return;
-
-      // Get scheduled statuses for today to avoid overwriting them
-      const { data: scheduledToday } = await supabase
-        .from('scheduled_statuses')
-        .select('employee_id')
-        .eq('tenant_id', user.id)
-        .eq('scheduled_date', today)
-        .in('employee_id', employeeIds);
-
-      const employeesWithScheduled = new Set(scheduledToday?.map(s => s.employee_id) || []);
-
-      // Step 2: Apply recurring statuses (only if no scheduled status exists)
-      for (const recurring of recurringStatuses) {
-        if (!employeesWithScheduled.has(recurring.employee_id)) {
-          await supabase
-            .from('employees')
-            .update({ 
-              status: recurring.status_text,
-              already_applied: true,
-              applied_date: today
-            })
-            .eq('id', recurring.employee_id);
-        }
-      }
+  // Ignore bookmarked departments that have since been removed
+  const activeFilters = {
+    ...filters,
+    departments: filters.departments.filter(
+      (value) => value === NO_DEPARTMENT || departments.some((d) => d.id === value)
+    ),
+  };
+  const visibleEmployees = filterEmployees(employees, activeFilters, statuses);
+  // People hidden by the filters are left out of bulk actions
+  const visibleSelectedIds = selectedIds.filter((id) => visibleEmployees.some((e) => e.id === id));
 
-    } catch (error: any) {
-      console.error('Error applying recurring statuses:', error);
-    }
+  const handleBulkDone = () => {
+    setSelectedIds([]);
+    loadEmployees();
   };
 
   const handleLogout = async () => {
@@ -269,45 +176,97 @@ const Index = () => {
         </div>
 
         <div className="flex items-center justify-between">
-          <ToggleGroup 
-            type="single" 
-            value={viewMode} 
-            onValueChange={(value) => value && setViewMode(value as 'table' | 'cards')}
-          >
-            <ToggleGroupItem value="table" aria-label="Table view">
-              <TableIcon className="h-4 w-4" />
-            </ToggleGroupItem>
-            <ToggleGroupItem value="cards" aria-label="Card view">
-              <LayoutGrid className="h-4 w-4" />
-            </ToggleGroupItem>
-          </ToggleGroup>
+          <div className="flex items-center gap-2">
+            <ToggleGroup 
+              type="single" 
+              value={viewMode} 
+              onValueChange={(value) => value && setViewMode(value as 'table' | 'cards')}
+            >
+              <ToggleGroupItem value="table" aria-label="Table view">
+                <TableIcon className="h-4 w-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="cards" aria-label="Card view">
+                <LayoutGrid className="h-4 w-4" />
+              </ToggleGroupItem>
+            </ToggleGroup>
+            <Button variant="ghost" size="icon" onClick={() => navigate('/display')} aria-label="Display mode">
+              <Monitor className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => navigate('/planner')} aria-label="Planner">
+              <CalendarDays className="h-4 w-4" />
+            </Button>
+          </div>
 
-          {isAdminMode && (
+          {isAdmin && (
             <div className="flex gap-2">
-              <AddEmployeeDialog tenantId={user?.id || ''} onEmployeeAdded={loadEmployees} />
+              <AddEmployeeDialog tenantId={tenantId || ''} onEmployeeAdded={loadEmployees} />
+              <Button variant="outline" onClick={() => navigate('/reports')}>
+                <BarChart3 className="mr-2 h-4 w-4" />
+                Reports
+              </Button>
               <Button variant="outline" onClick={() => navigate('/options')}>
                 <Settings className="mr-2 h-4 w-4" />
                 Options
               </Button>
             </div>
           )}
+          {!isAdmin && (
+            <Button variant="outline" onClick={() => navigate('/options')}>
+              <UserIcon className="mr-2 h-4 w-4" />
+              Account
+            </Button>
+          )}
         </div>
 
+        {employees.length > 0 && (
+          <>
+            <BoardFilterBar
+              filters={activeFilters}
+              onChange={handleFiltersChange}
+              statuses={statuses}
+              departments={departments}
+            />
+            <StatusSummary employees={visibleEmployees} statuses={statuses} />
+          </>
+        )}
+
+        {isAdmin && visibleSelectedIds.length > 0 && (
+          <BulkActionBar
+            selectedIds={visibleSelectedIds}
+            onClear={() => setSelectedIds([])}
+            onDone={handleBulkDone}
+          />
+        )}
+
         <Card>
           <CardContent className="p-4">
             {employees.length === 0 ? (
               <div className="text-center py-8 text-muted-foreground">
                 <p>No team members yet. Add your first person to get started!</p>
               </div>
+            ) : visibleEmployees.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <p>Nobody matches the current filters.</p>
+              </div>
             ) : viewMode === 'table' ? (
-              <EmployeeTable employees={employees} onEmployeeUpdate={loadEmployees} />
+              <EmployeeTable
+                employees={visibleEmployees}
+                onEmployeeUpdate={loadEmployees}
+                selectedIds={visibleSelectedIds}
+                onSelectionChange={setSelectedIds}
+              />
             ) : (
-              <EmployeeCardView employees={employees} onEmployeeUpdate={loadEmployees} />
+              <EmployeeCardView
+                employees={visibleEmployees}
+                onEmployeeUpdate={loadEmployees}
+                selectedIds={visibleSelectedIds}
+                onSelectionChange={setSelectedIds}
+              />
             )}
           </CardContent>
         </Card>
 
-        {isDailyMessageVisible && <DailyMessage tenantId={user?.id || ''} />}
+        {isDailyMessageVisible && <DailyMessage tenantId={tenantId || ''} />}
       </div>
       
       <Footer onLogout={handleLogout} />
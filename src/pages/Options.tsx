@@ -4,10 +4,27 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { TeamMembers } from '@/components/TeamMembers';
+import { DisplayScreens } from '@/components/DisplayScreens';
+import { Departments } from '@/components/Departments';
+import { Holidays } from '@/components/Holidays';
+import { EmployeeImportExport } from '@/components/EmployeeImportExport';
+import { AbsenceImport } from '@/components/AbsenceImport';
+import { TenantBackup } from '@/components/TenantBackup';
+import { CalendarFeed } from '@/components/CalendarFeed';
+import { OfficeCapacity } from '@/components/OfficeCapacity';
+import { StatusBadge } from '@/components/StatusBadge';
+import { PredefinedStatus, StatusCategory, STATUS_CATEGORIES, STATUS_COLORS, STATUS_ICONS } from '@/lib/statuses';
+import { useDragReorder } from '@/hooks/use-drag-reorder';
+import { cn } from '@/lib/utils';
+import { getSupportedTimeZones, getTodayInTimeZone } from '@/lib/dates';
+import { formatInTimeZone } from 'date-fns-tz';
 import { toast } from 'sonner';
-import { ArrowLeft, Plus, Trash2, Loader2, Eye, EyeOff } from 'lucide-react';
+import { ArrowLeft, Plus, Trash2, Loader2, Eye, EyeOff, GripVertical } from 'lucide-react';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -20,14 +37,11 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 
-interface PredefinedStatus {
-  id: string;
-  status_text: string;
-}
+const NO_VALUE = '__none__';
 
 const Options = () => {
   const navigate = useNavigate();
-  const { user, companyName } = useAuth();
+  const { user, tenantId, isOwner, isAdmin, companyName, timeZone } = useAuth();
   const [statuses, setStatuses] = useState<PredefinedStatus[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [newStatus, setNewStatus] = useState('');
@@ -36,6 +50,17 @@ const Options = () => {
   // Company settings
   const [editedCompanyName, setEditedCompanyName] = useState('');
   const [isUpdatingCompany, setIsUpdatingCompany] = useState(false);
+  const [editedTimeZone, setEditedTimeZone] = useState('');
+  const [isUpdatingTimeZone, setIsUpdatingTimeZone] = useState(false);
+  const timeZones = getSupportedTimeZones();
+
+  // Daily reset settings
+  const [defaultStatus, setDefaultStatus] = useState('');
+  const [resetTime, setResetTime] = useState('');
+  const [savedResetSettings, setSavedResetSettings] = useState({ defaultStatus: '', resetTime: '' });
+  const [isUpdatingReset, setIsUpdatingReset] = useState(false);
+  // Bumped after an absence import so the occupancy forecast loads again
+  const [importCount, setImportCount] = useState(0);
   
   // Account settings
   const [newEmail, setNewEmail] = useState('');
@@ -54,21 +79,30 @@ const Options = () => {
       return;
     }
 
-    loadStatuses();
+    if (!tenantId) return;
+
+    // Members and viewers only manage their own login; tenant settings need an admin
+    if (isAdmin) {
+      loadStatuses();
+      loadResetSettings();
+    } else {
+      setIsLoading(false);
+    }
     setEditedCompanyName(companyName || '');
+    setEditedTimeZone(timeZone);
     setNewEmail(user.email || '');
-  }, [user, navigate, companyName]);
+  }, [user, tenantId, isAdmin, navigate, companyName, timeZone]);
 
   const loadStatuses = async () => {
-    if (!user) return;
+    if (!tenantId) return;
 
     setIsLoading(true);
     try {
       const { data, error } = await supabase
         .from('predefined_statuses')
-        .select('*')
-        .eq('tenant_id', user.id)
-        .order('created_at');
+        .select('id, status_text, color, icon, category, counts_on_site')
+        .eq('tenant_id', tenantId)
+        .order('sort_order');
 
       if (error) throw error;
 
@@ -76,7 +110,7 @@ const Options = () => {
       if (!data || data.length === 0) {
         await createDefaultStatuses();
       } else {
-        setStatuses(data);
+        setStatuses(data.map((s) => ({ ...s, category: s.category as StatusCategory })));
       }
     } catch (error: any) {
       console.error('Error loading statuses:', error);
@@ -90,8 +124,32 @@ const Options = () => {
     }
   };
 
+  const loadResetSettings = async () => {
+    if (!tenantId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('default_status, reset_time')
+        .eq('id', tenantId)
+        .single();
+
+      if (error) throw error;
+
+      const settings = {
+        defaultStatus: data.default_status || '',
+        resetTime: data.reset_time?.slice(0, 5) || '',
+      };
+      setDefaultStatus(settings.defaultStatus);
+      setResetTime(settings.resetTime);
+      setSavedResetSettings(settings);
+    } catch (error) {
+      console.error('Error loading reset settings:', error);
+    }
+  };
+
   const createDefaultStatuses = async () => {
-    if (!user) return;
+    if (!tenantId) return;
 
     // Double-check user still exists before creating
     const { data: { session } } = await supabase.auth.getSession();
@@ -101,14 +159,14 @@ const Options = () => {
       const { data, error } = await supabase
         .from('predefined_statuses')
         .insert([
-          { tenant_id: user.id, status_text: 'In' },
-          { tenant_id: user.id, status_text: 'Out' },
+          { tenant_id: tenantId, status_text: 'In', color: '#22c55e', icon: 'CircleCheck', category: 'present', counts_on_site: true },
+          { tenant_id: tenantId, status_text: 'Out', color: '#ef4444', icon: 'CircleX', category: 'away' },
         ])
-        .select();
+        .select('id, status_text, color, icon, category, counts_on_site');
 
       if (error) throw error;
 
-      setStatuses(data || []);
+      setStatuses((data || []).map((s) => ({ ...s, category: s.category as StatusCategory })));
       toast.success('Default statuses created');
     } catch (error: any) {
       console.error('Error creating default statuses:', error);
@@ -121,19 +179,19 @@ const Options = () => {
   };
 
   const handleAddStatus = async () => {
-    if (!user || !newStatus.trim()) return;
+    if (!tenantId || !newStatus.trim()) return;
 
     setIsAdding(true);
     try {
       const { data, error } = await supabase
         .from('predefined_statuses')
-        .insert({ tenant_id: user.id, status_text: newStatus.trim() })
-        .select()
+        .insert({ tenant_id: tenantId, status_text: newStatus.trim() })
+        .select('id, status_text, color, icon, category, counts_on_site')
         .single();
 
       if (error) throw error;
 
-      setStatuses([...statuses, data]);
+      setStatuses([...statuses, { ...data, category: data.category as StatusCategory }]);
       setNewStatus('');
       toast.success('Status added');
     } catch (error) {
@@ -144,6 +202,44 @@ const Options = () => {
     }
   };
 
+  const handleUpdateStatus = async (
+    id: string,
+    updates: Partial<Pick<PredefinedStatus, 'color' | 'icon' | 'category' | 'counts_on_site'>>
+  ) => {
+    try {
+      const { error } = await supabase
+        .from('predefined_statuses')
+        .update(updates)
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setStatuses(statuses.map((s) => (s.id === id ? { ...s, ...updates } : s)));
+    } catch (error) {
+      console.error('Error updating status:', error);
+      toast.error('Failed to update status');
+    }
+  };
+
+  const handleReorderStatuses = async (reordered: PredefinedStatus[]) => {
+    const previous = statuses;
+    setStatuses(reordered);
+
+    try {
+      const { error } = await supabase.rpc('reorder_predefined_statuses', {
+        p_ids: reordered.map((s) => s.id),
+      });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error reordering statuses:', error);
+      toast.error('Failed to save the new order');
+      setStatuses(previous);
+    }
+  };
+
+  const { draggingId, overId, getDragProps } = useDragReorder(statuses, handleReorderStatuses);
+
   const handleDeleteStatus = async (id: string) => {
     try {
       const { error } = await supabase
@@ -168,7 +264,7 @@ const Options = () => {
   };
 
   const handleUpdateCompanyName = async () => {
-    if (!user || !editedCompanyName.trim()) {
+    if (!tenantId || !editedCompanyName.trim()) {
       toast.error('Company name cannot be empty');
       return;
     }
@@ -183,7 +279,7 @@ const Options = () => {
       const { error } = await supabase
         .from('profiles')
         .update({ company_name: editedCompanyName.trim() })
-        .eq('id', user.id);
+        .eq('id', tenantId);
 
       if (error) throw error;
 
@@ -197,6 +293,63 @@ const Options = () => {
     }
   };
 
+  const handleUpdateTimeZone = async () => {
+    if (!tenantId || !editedTimeZone) return;
+
+    setIsUpdatingTimeZone(true);
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ time_zone: editedTimeZone })
+        .eq('id', tenantId);
+
+      if (error) throw error;
+
+      toast.success('Time zone updated');
+      window.location.reload(); // Reload to update the context
+    } catch (error) {
+      console.error('Error updating time zone:', error);
+      toast.error('Failed to update time zone');
+    } finally {
+      setIsUpdatingTimeZone(false);
+    }
+  };
+
+  const handleUpdateResetSettings = async () => {
+    if (!tenantId) return;
+
+    if (defaultStatus && !resetTime) {
+      toast.error('Please choose a reset time');
+      return;
+    }
+
+    setIsUpdatingReset(true);
+    try {
+      // If the reset time has already passed today, the first reset happens tomorrow
+      const localTime = formatInTimeZone(new Date(), timeZone, 'HH:mm');
+      const alreadyPassed = resetTime !== '' && resetTime <= localTime;
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({
+          default_status: defaultStatus || null,
+          reset_time: defaultStatus ? resetTime : null,
+          last_reset_date: alreadyPassed ? getTodayInTimeZone(timeZone) : null,
+        })
+        .eq('id', tenantId);
+
+      if (error) throw error;
+
+      setSavedResetSettings({ defaultStatus, resetTime: defaultStatus ? resetTime : '' });
+      toast.success('Daily reset updated');
+    } catch (error) {
+      console.error('Error updating reset settings:', error);
+      toast.error('Failed to update daily reset');
+    } finally {
+      setIsUpdatingReset(false);
+    }
+  };
+
   const handleUpdateEmail = async () => {
     if (!newEmail.trim()) {
       toast.error('Email cannot be empty');
@@ -282,12 +435,9 @@ const Options = () => {
 
     setIsDeletingAccount(true);
     try {
-      // Delete all tenant data
-      await supabase.from('employees').delete().eq('tenant_id', user.id);
-      await supabase.from('predefined_statuses').delete().eq('tenant_id', user.id);
-      await supabase.from('scheduled_statuses').delete().eq('tenant_id', user.id);
-      await supabase.from('recurring_statuses').delete().eq('tenant_id', user.id);
-      await supabase.from('profiles').delete().eq('id', user.id);
+      // Delete all tenant data; the server only lets the owner do this
+      const { error } = await supabase.rpc('delete_tenant');
+      if (error) throw error;
 
       // Delete auth user
       const { error: deleteError } = await supabase.auth.admin.deleteUser(user.id);
@@ -331,34 +481,67 @@ const Options = () => {
           </div>
         </div>
 
-        <Card>
-          <CardHeader>
-            <CardTitle>Company Settings</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="companyName">Company Name</Label>
-              <div className="flex gap-2">
-                <Input
-                  id="companyName"
-                  value={editedCompanyName}
-                  onChange={(e) => setEditedCompanyName(e.target.value)}
-                  placeholder="Enter company name"
-                />
-                <Button
-                  onClick={handleUpdateCompanyName}
-                  disabled={isUpdatingCompany || editedCompanyName === companyName}
-                >
-                  {isUpdatingCompany ? (
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                  ) : (
-                    'Update'
-                  )}
-                </Button>
+        {isAdmin && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Company Settings</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="companyName">Company Name</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="companyName"
+                    value={editedCompanyName}
+                    onChange={(e) => setEditedCompanyName(e.target.value)}
+                    placeholder="Enter company name"
+                  />
+                  <Button
+                    onClick={handleUpdateCompanyName}
+                    disabled={isUpdatingCompany || editedCompanyName === companyName}
+                  >
+                    {isUpdatingCompany ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      'Update'
+                    )}
+                  </Button>
+                </div>
               </div>
-            </div>
-          </CardContent>
-        </Card>
+
+              <div className="space-y-2">
+                <Label htmlFor="timeZone">Time Zone</Label>
+                <div className="flex gap-2">
+                  <Select value={editedTimeZone} onValueChange={setEditedTimeZone}>
+                    <SelectTrigger id="timeZone">
+                      <SelectValue placeholder="Select time zone" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {timeZones.map((zone) => (
+                        <SelectItem key={zone} value={zone}>
+                          {zone.replace(/_/g, ' ')}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    onClick={handleUpdateTimeZone}
+                    disabled={isUpdatingTimeZone || editedTimeZone === timeZone}
+                  >
+                    {isUpdatingTimeZone ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      'Update'
+                    )}
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Scheduled and recurring statuses switch over at midnight in this time zone.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
 
         <Card>
           <CardHeader>
@@ -446,105 +629,279 @@ const Options = () => {
           </CardContent>
         </Card>
 
-        <Card>
-          <CardHeader>
-            <CardTitle>Predefined Status Choices</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="flex gap-2">
-              <Input
-                placeholder="Add new status option..."
-                value={newStatus}
-                onChange={(e) => setNewStatus(e.target.value)}
-                onKeyDown={handleKeyDown}
-              />
-              <Button
-                onClick={handleAddStatus}
-                disabled={!newStatus.trim() || isAdding}
-              >
-                <Plus className="h-4 w-4" />
-              </Button>
-            </div>
-
-            <div className="space-y-2">
-              {statuses.map((status) => (
-                <div
-                  key={status.id}
-                  className="flex items-center justify-between p-3 bg-card rounded-lg border border-border"
-                >
-                  <span className="text-foreground">{status.status_text}</span>
+        {isAdmin && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Predefined Status Choices</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Add new status option..."
+                    value={newStatus}
+                    onChange={(e) => setNewStatus(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                  />
                   <Button
-                    variant="ghost"
-                    size="icon"
-                    onClick={() => handleDeleteStatus(status.id)}
+                    onClick={handleAddStatus}
+                    disabled={!newStatus.trim() || isAdding}
                   >
-                    <Trash2 className="h-4 w-4 text-destructive" />
+                    <Plus className="h-4 w-4" />
                   </Button>
                 </div>
-              ))}
-            </div>
 
-            {statuses.length === 0 && (
-              <p className="text-center py-8 text-muted-foreground">
-                No status options yet. Add your first one above!
-              </p>
-            )}
-          </CardContent>
-        </Card>
+                {statuses.length > 1 && (
+                  <p className="text-xs text-muted-foreground">
+                    Drag to reorder. Status lists everywhere follow this order.
+                  </p>
+                )}
 
-        <Card className="border-destructive">
-          <CardHeader>
-            <CardTitle className="text-destructive">Danger Zone</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-6">
-            <div>
-              <p className="text-sm text-muted-foreground mb-4">
-                Once you delete your account, there is no going back. This will permanently delete all your data including employees, statuses, and settings.
-              </p>
-              <AlertDialog>
-                <AlertDialogTrigger asChild>
-                  <Button variant="destructive" disabled={isDeletingAccount}>
-                    {isDeletingAccount ? (
-                      <>
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Deleting...
-                      </>
-                    ) : (
-                      <>
-                        <Trash2 className="mr-2 h-4 w-4" />
-                        Delete this account and all data
-                      </>
-                    )}
-                  </Button>
-                </AlertDialogTrigger>
-                <AlertDialogContent>
-                  <AlertDialogHeader>
-                    <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
-                    <AlertDialogDescription className="space-y-2">
-                      This action cannot be undone. This will permanently delete your account and remove all your data including:
-                    </AlertDialogDescription>
-                    <ul className="list-disc list-inside space-y-1 text-sm text-muted-foreground pl-4">
-                      <li>All employees</li>
-                      <li>All status configurations</li>
-                      <li>All scheduled statuses</li>
-                      <li>Company settings</li>
-                      <li>Your account information</li>
-                    </ul>
-                  </AlertDialogHeader>
-                  <AlertDialogFooter>
-                    <AlertDialogCancel>Cancel</AlertDialogCancel>
-                    <AlertDialogAction
-                      onClick={handleDeleteAccount}
-                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                <div className="space-y-2">
+                  {statuses.map((status) => (
+                    <div
+                      key={status.id}
+                      className={cn(
+                        'p-3 bg-card rounded-lg border border-border space-y-3 transition-colors',
+                        draggingId === status.id && 'opacity-50',
+                        overId === status.id && draggingId !== status.id && 'border-primary'
+                      )}
+                      {...getDragProps(status.id)}
                     >
-                      Yes, delete everything
-                    </AlertDialogAction>
-                  </AlertDialogFooter>
-                </AlertDialogContent>
-              </AlertDialog>
-            </div>
-          </CardContent>
-        </Card>
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <GripVertical className="h-4 w-4 shrink-0 text-muted-foreground cursor-grab" />
+                          <StatusBadge status={status.status_text} meta={status} />
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDeleteStatus(status.id)}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                        <Select
+                          value={status.color || NO_VALUE}
+                          onValueChange={(value) => handleUpdateStatus(status.id, { color: value === NO_VALUE ? null : value })}
+                        >
+                          <SelectTrigger aria-label="Color">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_VALUE}>No color</SelectItem>
+                            {STATUS_COLORS.map((color) => (
+                              <SelectItem key={color} value={color}>
+                                <span className="flex items-center gap-2">
+                                  <span className="h-3 w-3 rounded-full" style={{ backgroundColor: color }} />
+                                  {color}
+                                </span>
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Select
+                          value={status.icon || NO_VALUE}
+                          onValueChange={(value) => handleUpdateStatus(status.id, { icon: value === NO_VALUE ? null : value })}
+                        >
+                          <SelectTrigger aria-label="Icon">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_VALUE}>No icon</SelectItem>
+                            {Object.entries(STATUS_ICONS).map(([name, Icon]) => (
+                              <SelectItem key={name} value={name}>
+                                <span className="flex items-center gap-2">
+                                  <Icon className="h-4 w-4" />
+                                  {name}
+                                </span>
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Select
+                          value={status.category}
+                          onValueChange={(value) => handleUpdateStatus(status.id, { category: value as StatusCategory })}
+                        >
+                          <SelectTrigger aria-label="Category">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {STATUS_CATEGORIES.map((category) => (
+                              <SelectItem key={category.value} value={category.value}>
+                                {category.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          id={`on-site-${status.id}`}
+                          checked={status.counts_on_site}
+                          onCheckedChange={(checked) => handleUpdateStatus(status.id, { counts_on_site: checked })}
+                        />
+                        <Label htmlFor={`on-site-${status.id}`} className="font-normal">
+                          In the office (counts towards the office capacity)
+                        </Label>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                {statuses.length === 0 && (
+                  <p className="text-center py-8 text-muted-foreground">
+                    No status options yet. Add your first one above!
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Daily Reset</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="defaultStatus">Default Status</Label>
+                    <Select
+                      value={defaultStatus || NO_VALUE}
+                      onValueChange={(value) => setDefaultStatus(value === NO_VALUE ? '' : value)}
+                    >
+                      <SelectTrigger id="defaultStatus">
+                        <SelectValue placeholder="No reset" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_VALUE}>No reset</SelectItem>
+                        {statuses.map((status) => (
+                          <SelectItem key={status.id} value={status.status_text}>
+                            {status.status_text}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="resetTime">Reset Time</Label>
+                    <Input
+                      id="resetTime"
+                      type="time"
+                      step={900}
+                      value={resetTime}
+                      onChange={(e) => setResetTime(e.target.value)}
+                      disabled={!defaultStatus}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Everyone is set to the default status once a day at the reset time (checked every 15 minutes).
+                  A reset after noon prepares the next day, so people with a scheduled or recurring status tomorrow get that instead.
+                  A morning reset skips people with a scheduled or recurring status today.
+                </p>
+                <Button
+                  onClick={handleUpdateResetSettings}
+                  disabled={
+                    isUpdatingReset ||
+                    (defaultStatus === savedResetSettings.defaultStatus && resetTime === savedResetSettings.resetTime)
+                  }
+                  className="w-full"
+                >
+                  {isUpdatingReset ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    'Save Daily Reset'
+                  )}
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Departments tenantId={tenantId || ''} />
+
+            <Holidays tenantId={tenantId || ''} />
+
+            <OfficeCapacity key={importCount} tenantId={tenantId || ''} />
+
+            <EmployeeImportExport tenantId={tenantId || ''} />
+
+            <AbsenceImport
+              tenantId={tenantId || ''}
+              onImported={() => setImportCount((count) => count + 1)}
+            />
+
+            <TeamMembers tenantId={tenantId || ''} />
+
+            <DisplayScreens tenantId={tenantId || ''} />
+
+            <CalendarFeed tenantId={tenantId || ''} />
+          </>
+        )}
+
+        {isOwner && (
+          <TenantBackup tenantId={tenantId || ''} />
+        )}
+
+        {isOwner && (
+          <Card className="border-destructive">
+            <CardHeader>
+              <CardTitle className="text-destructive">Danger Zone</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Once you delete your account, there is no going back. This will permanently delete all your data including employees, statuses, and settings. Download a backup first if you want to keep a copy.
+                </p>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="destructive" disabled={isDeletingAccount}>
+                      {isDeletingAccount ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Deleting...
+                        </>
+                      ) : (
+                        <>
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          Delete this account and all data
+                        </>
+                      )}
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+                      <AlertDialogDescription className="space-y-2">
+                        This action cannot be undone. This will permanently delete your account and remove all your data including:
+                      </AlertDialogDescription>
+                      <ul className="list-disc list-inside space-y-1 text-sm text-muted-foreground pl-4">
+                        <li>All employees</li>
+                        <li>All status configurations</li>
+                        <li>All scheduled and recurring statuses</li>
+                        <li>Status history, holidays and departments</li>
+                        <li>Member access, display screens and calendar feeds</li>
+                        <li>Company settings</li>
+                        <li>Your account information</li>
+                      </ul>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={handleDeleteAccount}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                      >
+                        Yes, delete everything
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
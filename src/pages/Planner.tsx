@@ -0,0 +1,358 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isWeekend,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { ArrowLeft, ChevronLeft, ChevronRight, Clock, Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePredefinedStatuses } from '@/hooks/use-predefined-statuses';
+import { useOfficeOccupancy } from '@/hooks/use-office-occupancy';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { StatusBadge } from '@/components/StatusBadge';
+import {
+  PlannerCell,
+  PlannerCellDialog,
+  PlannerScheduledStatus,
+} from '@/components/PlannerCellDialog';
+import { getTodayDateInTimeZone } from '@/lib/dates';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+type PlannerView = 'week' | 'month';
+
+interface Employee {
+  id: string;
+  name: string;
+}
+
+interface PlannerEntry {
+  status_text: string | null;
+  source: string | null;
+  part_day: boolean;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  scheduled: 'Scheduled',
+  holiday: 'Holiday',
+  recurring: 'Recurring',
+};
+
+const getPeriod = (view: PlannerView, anchor: Date) =>
+  view === 'week'
+    ? { from: startOfWeek(anchor, { weekStartsOn: 1 }), to: endOfWeek(anchor, { weekStartsOn: 1 }) }
+    : { from: startOfMonth(anchor), to: endOfMonth(anchor) };
+
+const entryKey = (employeeId: string, day: string) => `${employeeId}:${day}`;
+
+const Planner = () => {
+  const navigate = useNavigate();
+  const { user, tenantId, timeZone, isAdmin, companyName, loading } = useAuth();
+  const { statuses, getStatusMeta } = usePredefinedStatuses();
+  const [view, setView] = useState<PlannerView>('week');
+  const [anchor, setAnchor] = useState(() => getTodayDateInTimeZone(timeZone));
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [entries, setEntries] = useState<Map<string, PlannerEntry>>(new Map());
+  const [holidays, setHolidays] = useState<Map<string, string>>(new Map());
+  const [scheduledStatuses, setScheduledStatuses] = useState<PlannerScheduledStatus[]>([]);
+  const [selectedCell, setSelectedCell] = useState<PlannerCell | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const period = getPeriod(view, anchor);
+  const days = eachDayOfInterval({ start: period.from, end: period.to });
+  const today = getTodayDateInTimeZone(timeZone);
+  const { capacity, occupancy, reload: reloadOccupancy } = useOfficeOccupancy(
+    format(period.from, 'yyyy-MM-dd'),
+    format(period.to, 'yyyy-MM-dd')
+  );
+  const onSiteCounts = new Map(occupancy.map((o) => [o.day, o.employee_ids.length]));
+
+  useEffect(() => {
+    if (loading) return;
+
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+
+    if (tenantId) {
+      loadPlanner();
+    }
+  }, [user, tenantId, loading, view, anchor, navigate]);
+
+  const loadPlanner = async () => {
+    const from = format(period.from, 'yyyy-MM-dd');
+    const to = format(period.to, 'yyyy-MM-dd');
+
+    setIsLoading(true);
+    try {
+      const [employeesResult, plannerResult, holidaysResult, scheduledResult] = await Promise.all([
+        supabase
+          .from('employees')
+          .select('id, name')
+          .eq('tenant_id', tenantId)
+          .order('sort_order'),
+        supabase.rpc('get_planner', { p_from: from, p_to: to }),
+        supabase
+          .from('holidays')
+          .select('date, name')
+          .eq('tenant_id', tenantId)
+          .gte('date', from)
+          .lte('date', to),
+        supabase
+          .from('scheduled_statuses')
+          .select('id, employee_id, scheduled_date, end_date, status_text, skip_weekends, start_time, end_time')
+          .eq('tenant_id', tenantId)
+          .lte('scheduled_date', to)
+          .gte('end_date', from)
+          .order('scheduled_date'),
+      ]);
+
+      if (employeesResult.error) throw employeesResult.error;
+      if (plannerResult.error) throw plannerResult.error;
+      if (holidaysResult.error) throw holidaysResult.error;
+      if (scheduledResult.error) throw scheduledResult.error;
+
+      setEmployees(employeesResult.data || []);
+      setEntries(new Map((plannerResult.data || []).map((row) => [entryKey(row.employee_id, row.day), row])));
+      setHolidays(new Map((holidaysResult.data || []).map((h) => [h.date, h.name])));
+      setScheduledStatuses(scheduledResult.data || []);
+    } catch (error) {
+      console.error('Error loading planner:', error);
+      toast.error('Failed to load planner');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // A change to today's schedule should show on the board right away
+  const handleCellChanged = async (cell: PlannerCell) => {
+    loadPlanner();
+    reloadOccupancy();
+
+    if (!isSameDay(cell.day, today)) return;
+
+    try {
+      const { error: resetError } = await supabase
+        .from('employees')
+        .update({
+          already_applied: false,
+          applied_date: null
+        })
+        .eq('id', cell.employeeId);
+
+      if (resetError) throw resetError;
+
+      const { error } = await supabase.rpc('apply_daily_statuses');
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error applying statuses:', error);
+    }
+  };
+
+  const movePeriod = (step: number) => {
+    setAnchor((current) => (view === 'week' ? addWeeks(current, step) : addMonths(current, step)));
+  };
+
+  const periodLabel = view === 'week'
+    ? `${format(period.from, 'MMM dd')} - ${format(period.to, 'MMM dd, yyyy')}`
+    : format(period.from, 'MMMM yyyy');
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-7xl mx-auto space-y-4">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" onClick={() => navigate('/')}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Planner</h1>
+            <p className="text-sm text-muted-foreground">{companyName}</p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <ToggleGroup
+            type="single"
+            value={view}
+            onValueChange={(value) => value && setView(value as PlannerView)}
+            variant="outline"
+          >
+            <ToggleGroupItem value="week">Week</ToggleGroupItem>
+            <ToggleGroupItem value="month">Month</ToggleGroupItem>
+          </ToggleGroup>
+          <Button variant="outline" size="icon" onClick={() => movePeriod(-1)} aria-label="Previous">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setAnchor(today)}>
+            Today
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => movePeriod(1)} aria-label="Next">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <span className="font-medium">{periodLabel}</span>
+          {isAdmin && (
+            <p className="text-xs text-muted-foreground">
+              Click a day to schedule or remove a status.
+            </p>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : employees.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              No employees yet
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="p-0 overflow-x-auto">
+              <table className="w-full border-collapse text-sm">
+                <thead>
+                  <tr>
+                    <th className="sticky left-0 z-10 bg-card border-b p-2 text-left font-medium">Name</th>
+                    {days.map((day) => {
+                      const holiday = holidays.get(format(day, 'yyyy-MM-dd'));
+                      return (
+                        <th
+                          key={day.toISOString()}
+                          title={holiday}
+                          className={cn(
+                            "border-b border-l p-2 text-center font-medium whitespace-nowrap",
+                            isWeekend(day) && "bg-muted/50",
+                            holiday && "bg-accent",
+                            isSameDay(day, today) && "text-primary"
+                          )}
+                        >
+                          <div className="text-xs text-muted-foreground">{format(day, 'EEE')}</div>
+                          <div>{format(day, 'd')}</div>
+                          {view === 'week' && holiday && (
+                            <div className="text-xs font-normal text-muted-foreground truncate max-w-28">{holiday}</div>
+                          )}
+                        </th>
+                      );
+                    })}
+                  </tr>
+                </thead>
+                <tbody>
+                  {employees.map((employee) => (
+                    <tr key={employee.id}>
+                      <td className="sticky left-0 z-10 bg-card border-b p-2 font-medium whitespace-nowrap">
+                        {employee.name}
+                      </td>
+                      {days.map((day) => {
+                        const entry = entries.get(entryKey(employee.id, format(day, 'yyyy-MM-dd')));
+                        // Past scheduled entries are cleaned up daily, so only upcoming days can be edited
+                        const canEdit = isAdmin && day >= today;
+                        const title = entry?.status_text
+                          ? `${entry.status_text} (${SOURCE_LABELS[entry.source || ''] || entry.source})${entry.part_day ? ', changes during the day' : ''}`
+                          : undefined;
+
+                        return (
+                          <td
+                            key={day.toISOString()}
+                            title={title}
+                            onClick={canEdit ? () => setSelectedCell({ employeeId: employee.id, employeeName: employee.name, day }) : undefined}
+                            className={cn(
+                              "border-b border-l p-1 text-center",
+                              isWeekend(day) && "bg-muted/50",
+                              day < today && "opacity-50",
+                              canEdit && "cursor-pointer hover:bg-accent"
+                            )}
+                          >
+                            {(entry?.status_text || entry?.part_day) && (
+                              <div className="flex items-center justify-center gap-1">
+                                {entry.status_text && (
+                                  <StatusBadge
+                                    status={entry.status_text}
+                                    meta={getStatusMeta(entry.status_text)}
+                                    className={cn(
+                                      "text-xs px-1.5",
+                                      view === 'month' ? "max-w-16" : "max-w-28",
+                                      entry.source === 'recurring' && "border-dashed"
+                                    )}
+                                  />
+                                )}
+                                {entry.part_day && <Clock className="h-3 w-3 shrink-0 text-muted-foreground" />}
+                              </div>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+                {capacity !== null && (
+                  <tfoot>
+                    <tr>
+                      <td className="sticky left-0 z-10 bg-card p-2 font-medium whitespace-nowrap">
+                        In the office
+                      </td>
+                      {days.map((day) => {
+                        const count = onSiteCounts.get(format(day, 'yyyy-MM-dd')) ?? 0;
+                        return (
+                          <td
+                            key={day.toISOString()}
+                            className={cn(
+                              "border-l p-2 text-center text-xs font-medium whitespace-nowrap",
+                              count > capacity && "bg-destructive/10 text-destructive"
+                            )}
+                          >
+                            {count}/{capacity}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  </tfoot>
+                )}
+              </table>
+            </CardContent>
+          </Card>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          Each day shows the scheduled, holiday or recurring status that applies for the whole day.
+          Recurring statuses have a dashed outline, and a clock marks days with a timed entry.
+        </p>
+      </div>
+
+      {tenantId && (
+        <PlannerCellDialog
+          tenantId={tenantId}
+          cell={selectedCell}
+          scheduledStatuses={scheduledStatuses}
+          statuses={statuses}
+          onClose={() => setSelectedCell(null)}
+          onChanged={handleCellChanged}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Planner;
@@ -0,0 +1,288 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { DateRange } from 'react-day-picker';
+import { format, parseISO, subDays } from 'date-fns';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { ArrowLeft, Calendar as CalendarIcon, Download, Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePredefinedStatuses } from '@/hooks/use-predefined-statuses';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { downloadCsv } from '@/lib/csv';
+import { getTodayDateInTimeZone } from '@/lib/dates';
+import {
+  CATEGORY_SERIES,
+  ReportEmployee,
+  ReportRow,
+  StatusSeries,
+  buildCategoryTrend,
+  buildEmployeeBreakdown,
+  buildStatusSeries,
+  buildStatusTotals,
+  buildWeekdayOccupancy,
+} from '@/lib/reports';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+const DEFAULT_PERIOD_DAYS = 30;
+
+const toChartConfig = (series: StatusSeries[]): ChartConfig =>
+  Object.fromEntries(series.map((s) => [s.key, { label: s.label, color: s.color }]));
+
+const Reports = () => {
+  const navigate = useNavigate();
+  const { user, tenantId, timeZone, isAdmin, companyName, loading } = useAuth();
+  const { statuses } = usePredefinedStatuses();
+  const [dateRange, setDateRange] = useState<DateRange | undefined>(() => {
+    const today = getTodayDateInTimeZone(timeZone);
+    return { from: subDays(today, DEFAULT_PERIOD_DAYS - 1), to: today };
+  });
+  const [employees, setEmployees] = useState<ReportEmployee[]>([]);
+  const [rows, setRows] = useState<ReportRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (loading) return;
+
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+
+    // Reports show everyone's attendance, so they are for admins only
+    if (!isAdmin) {
+      navigate('/');
+      return;
+    }
+
+    if (tenantId && dateRange?.from) {
+      loadReport();
+    }
+  }, [user, tenantId, isAdmin, loading, dateRange, navigate]);
+
+  const loadReport = async () => {
+    if (!dateRange?.from) return;
+
+    setIsLoading(true);
+    try {
+      const [employeesResult, reportResult] = await Promise.all([
+        supabase
+          .from('employees')
+          .select('id, name')
+          .eq('tenant_id', tenantId)
+          .order('sort_order'),
+        supabase.rpc('get_daily_status_report', {
+          p_from: format(dateRange.from, 'yyyy-MM-dd'),
+          p_to: format(dateRange.to || dateRange.from, 'yyyy-MM-dd'),
+        }),
+      ]);
+
+      if (employeesResult.error) throw employeesResult.error;
+      if (reportResult.error) throw reportResult.error;
+
+      setEmployees(employeesResult.data || []);
+      setRows(reportResult.data || []);
+    } catch (error) {
+      console.error('Error loading report:', error);
+      toast.error('Failed to load report');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const series = buildStatusSeries(rows, statuses);
+  const statusTotals = buildStatusTotals(rows, statuses, series);
+  const breakdown = buildEmployeeBreakdown(rows, employees, statuses, series);
+  const occupancy = buildWeekdayOccupancy(rows, statuses);
+  const trend = buildCategoryTrend(rows, statuses);
+
+  const handleExport = () => {
+    if (!dateRange?.from) return;
+
+    const from = format(dateRange.from, 'yyyy-MM-dd');
+    const to = format(dateRange.to || dateRange.from, 'yyyy-MM-dd');
+
+    downloadCsv(`report-${from}-to-${to}.csv`, [
+      ['name', ...series.map((s) => s.label), 'total days'],
+      ...breakdown.map((b) => [b.name, ...series.map((s) => b[s.key]), b.total]),
+    ]);
+  };
+
+  const rangeLabel = dateRange?.from
+    ? dateRange.to
+      ? `${format(dateRange.from, 'MMM dd, yyyy')} - ${format(dateRange.to, 'MMM dd, yyyy')}`
+      : format(dateRange.from, 'MMM dd, yyyy')
+    : 'Pick a period';
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-5xl mx-auto space-y-4">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" onClick={() => navigate('/')}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Reports</h1>
+            <p className="text-sm text-muted-foreground">{companyName}</p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                variant="outline"
+                className={cn("justify-start text-left font-normal", !dateRange?.from && "text-muted-foreground")}
+              >
+                <CalendarIcon className="mr-2 h-4 w-4" />
+                {rangeLabel}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="range"
+                selected={dateRange}
+                onSelect={setDateRange}
+                disabled={(date) => date > getTodayDateInTimeZone(timeZone)}
+                initialFocus
+                className={cn("p-3 pointer-events-auto")}
+              />
+            </PopoverContent>
+          </Popover>
+          <Button variant="outline" onClick={handleExport} disabled={breakdown.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            Each day counts as the status a person had at noon.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : rows.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              No status history in this period
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="grid gap-4 md:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Days by Status</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={{ days: { label: 'Days' } }} className="aspect-auto h-64 w-full">
+                    <BarChart data={statusTotals} layout="vertical" margin={{ left: 16 }}>
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" allowDecimals={false} />
+                      <YAxis type="category" dataKey="status" width={100} tickLine={false} axisLine={false} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="days" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Average Present by Weekday</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer
+                    config={{ present: { label: 'People present', color: CATEGORY_SERIES[0].color } }}
+                    className="aspect-auto h-64 w-full"
+                  >
+                    <BarChart data={occupancy}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="weekday" tickLine={false} axisLine={false} />
+                      <YAxis allowDecimals tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="present" fill="var(--color-present)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Presence Over Time</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={toChartConfig(CATEGORY_SERIES)} className="aspect-auto h-72 w-full">
+                  <LineChart data={trend}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis
+                      dataKey="day"
+                      tickLine={false}
+                      axisLine={false}
+                      minTickGap={24}
+                      tickFormatter={(day: string) => format(parseISO(day), 'MMM d')}
+                    />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {CATEGORY_SERIES.map((s) => (
+                      <Line key={s.key} dataKey={s.key} stroke={`var(--color-${s.key})`} strokeWidth={2} dot={false} />
+                    ))}
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Days per Person</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer
+                  config={toChartConfig(series)}
+                  className="aspect-auto w-full"
+                  style={{ height: Math.max(160, breakdown.length * 36 + 64) }}
+                >
+                  <BarChart data={breakdown} layout="vertical" margin={{ left: 16 }}>
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" allowDecimals={false} />
+                    <YAxis type="category" dataKey="name" width={120} tickLine={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {series.map((s) => (
+                      <Bar key={s.key} dataKey={s.key} stackId="days" fill={`var(--color-${s.key})`} />
+                    ))}
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Reports;
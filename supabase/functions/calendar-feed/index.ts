@@ -0,0 +1,254 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const textResponse = (body: string, status = 200) =>
+  new Response(body, { status, headers: { "Content-Type": "text/plain; charset=utf-8" } });
+
+// Dates are handled as plain YYYY-MM-DD calendar days, without a time zone
+const parseDay = (day: string) => new Date(`${day}T00:00:00Z`);
+const formatDay = (date: Date) => date.toISOString().slice(0, 10);
+const addDays = (day: string, days: number) => {
+  const date = parseDay(day);
+  date.setUTCDate(date.getUTCDate() + days);
+  return formatDay(date);
+};
+const icsDate = (day: string) => day.replaceAll("-", "");
+const icsTime = (time: string) => time.slice(0, 8).replaceAll(":", "");
+// UNTIL has to be a date-time when the event starts at a time of day
+const icsUntil = (day: string, timed: boolean) => (timed ? `${icsDate(day)}T235959` : icsDate(day));
+
+// Whether a day is the nth given weekday of its month, where -1 is the last one
+const isNthWeekday = (day: string, dayOfWeek: number, week: number) => {
+  const date = parseDay(day);
+  if (date.getUTCDay() !== dayOfWeek) return false;
+  if (week === -1) return parseDay(addDays(day, 7)).getUTCMonth() !== date.getUTCMonth();
+  return Math.floor((date.getUTCDate() - 1) / 7) + 1 === week;
+};
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Content lines longer than 75 octets are folded onto continuation lines
+const foldLine = (line: string) => {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (new TextEncoder().encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+interface FeedEvent {
+  uid: string;
+  summary: string;
+  start: string;
+  end: string;
+  // Timed events start and end on the same day, without these they are all-day
+  startTime?: string;
+  endTime?: string;
+  rrule?: string;
+}
+
+const buildCalendar = (name: string, timeZone: string, events: FeedEvent[]) => {
+  const stamp = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d+/, "");
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//InOrOut//Status Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+  ];
+
+  events.forEach((event) => {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      // Times are floating, so calendars read them in the feed's time zone
+      event.startTime
+        ? `DTSTART:${icsDate(event.start)}T${icsTime(event.startTime)}`
+        : `DTSTART;VALUE=DATE:${icsDate(event.start)}`,
+      event.endTime
+        ? `DTEND:${icsDate(event.end)}T${icsTime(event.endTime)}`
+        : `DTEND;VALUE=DATE:${icsDate(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      "TRANSP:TRANSPARENT",
+    );
+    if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+    lines.push("END:VEVENT");
+  });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
+
+// Serves an iCalendar feed of scheduled and recurring statuses for a secret token.
+// Calendar apps cannot sign in, so the token in the URL is the only credential.
+serve(async (req) => {
+  try {
+    const token = new URL(req.url).searchParams.get("token");
+    if (!token) {
+      return textResponse("Missing token", 400);
+    }
+
+    const adminClient = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+    );
+
+    const { data: feed } = await adminClient
+      .from("calendar_feed_tokens")
+      .select("id, tenant_id, employee_id, last_used_at")
+      .eq("token", token)
+      .maybeSingle();
+
+    if (!feed) {
+      return textResponse("Invalid token", 404);
+    }
+
+    // Calendar apps poll often, so only record usage every few minutes
+    if (!feed.last_used_at || Date.parse(feed.last_used_at) < Date.now() - 5 * 60 * 1000) {
+      await adminClient
+        .from("calendar_feed_tokens")
+        .update({ last_used_at: new Date().toISOString() })
+        .eq("id", feed.id);
+    }
+
+    const { data: profile } = await adminClient
+      .from("profiles")
+      .select("company_name, time_zone")
+      .eq("id", feed.tenant_id)
+      .single();
+
+    let employeesQuery = adminClient
+      .from("employees")
+      .select("id, name, recurring_enabled")
+      .eq("tenant_id", feed.tenant_id);
+    if (feed.employee_id) employeesQuery = employeesQuery.eq("id", feed.employee_id);
+
+    const { data: employees, error: employeesError } = await employeesQuery;
+    if (employeesError) throw employeesError;
+
+    const employeeIds = (employees || []).map((e) => e.id);
+    const names = new Map((employees || []).map((e) => [e.id, e.name]));
+    const recurringEmployeeIds = (employees || []).filter((e) => e.recurring_enabled).map((e) => e.id);
+
+    const [{ data: scheduled, error: scheduledError }, { data: recurring, error: recurringError }] =
+      await Promise.all([
+        adminClient
+          .from("scheduled_statuses")
+          .select("id, employee_id, scheduled_date, end_date, skip_weekends, start_time, end_time, status_text")
+          .in("employee_id", employeeIds),
+        adminClient
+          .from("recurring_statuses")
+          .select("id, employee_id, day_of_week, frequency, interval_weeks, week_of_month, starts_on, ends_on, start_time, end_time, status_text, created_at")
+          .in("employee_id", recurringEmployeeIds),
+      ]);
+
+    if (scheduledError) throw scheduledError;
+    if (recurringError) throw recurringError;
+
+    // The tenant feed shows whose status it is, a personal feed only the status
+    const summaryFor = (employeeId: string, status: string) =>
+      feed.employee_id ? status : `${names.get(employeeId)}: ${status}`;
+
+    const events: FeedEvent[] = [];
+
+    (scheduled || []).forEach((s) => {
+      const timed = !!s.start_time;
+
+      if (!s.skip_weekends && !timed) {
+        events.push({
+          uid: `scheduled-${s.id}@inorout`,
+          summary: summaryFor(s.employee_id, s.status_text),
+          start: s.scheduled_date,
+          end: addDays(s.end_date, 1),
+        });
+        return;
+      }
+
+      // Timed and weekday-only ranges repeat daily, weekday-only ones starting on the first weekday
+      let start = s.scheduled_date;
+      if (s.skip_weekends) {
+        while ([0, 6].includes(parseDay(start).getUTCDay())) start = addDays(start, 1);
+        if (start > s.end_date) return;
+      }
+
+      const byDay = s.skip_weekends ? ";BYDAY=MO,TU,WE,TH,FR" : "";
+      events.push({
+        uid: `scheduled-${s.id}@inorout`,
+        summary: summaryFor(s.employee_id, s.status_text),
+        start,
+        end: timed ? start : addDays(start, 1),
+        startTime: s.start_time ?? undefined,
+        endTime: s.end_time ?? undefined,
+        rrule: `FREQ=DAILY${byDay};UNTIL=${icsUntil(s.end_date, timed)}`,
+      });
+    });
+
+    // Rules that overlap all show up, the feed does not apply their order
+    (recurring || []).forEach((r) => {
+      const from = r.starts_on || r.created_at.slice(0, 10);
+      let start: string;
+      let rrule: string;
+
+      if (r.frequency === "monthly") {
+        start = from;
+        while (!isNthWeekday(start, r.day_of_week, r.week_of_month)) start = addDays(start, 1);
+        rrule = `FREQ=MONTHLY;BYDAY=${r.week_of_month}${WEEKDAYS[r.day_of_week]}`;
+      } else {
+        // Weeks are counted from the week of the start date, Monday first
+        const monday = addDays(from, -((parseDay(from).getUTCDay() + 6) % 7));
+        start = addDays(monday, (r.day_of_week + 6) % 7);
+        if (start < from) start = addDays(start, 7 * r.interval_weeks);
+        rrule = `FREQ=WEEKLY;INTERVAL=${r.interval_weeks};BYDAY=${WEEKDAYS[r.day_of_week]};WKST=MO`;
+      }
+
+      if (r.ends_on) {
+        if (start > r.ends_on) return;
+        rrule += `;UNTIL=${icsUntil(r.ends_on, !!r.start_time)}`;
+      }
+
+      events.push({
+        uid: `recurring-${r.id}@inorout`,
+        summary: summaryFor(r.employee_id, r.status_text),
+        start,
+        end: r.start_time ? start : addDays(start, 1),
+        startTime: r.start_time ?? undefined,
+        endTime: r.end_time ?? undefined,
+        rrule,
+      });
+    });
+
+    const calendarName = feed.employee_id
+      ? `${names.get(feed.employee_id) || "Status"} – ${profile?.company_name || "InOrOut"}`
+      : profile?.company_name || "InOrOut";
+
+    return new Response(buildCalendar(calendarName, profile?.time_zone || "UTC", events), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="inorout.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error) {
+    console.error("Error building calendar feed:", error);
+    return textResponse("Failed to build calendar feed", 500);
+  }
+});
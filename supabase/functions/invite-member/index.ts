@@ -0,0 +1,108 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const INVITABLE_ROLES = ["admin", "member", "viewer"];
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Invites a person by email to the caller's tenant with a role, optionally linked to one employee row
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Not authenticated" }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const userClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const adminClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) {
+      return jsonResponse({ error: "Not authenticated" }, 401);
+    }
+
+    const { data: caller } = await adminClient
+      .from("tenant_members")
+      .select("tenant_id, role")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (!caller || !["owner", "admin"].includes(caller.role)) {
+      return jsonResponse({ error: "Only admins can invite members" }, 403);
+    }
+
+    const { email, employeeId, role = "member", redirectTo } = await req.json();
+    const trimmedEmail = typeof email === "string" ? email.trim().toLowerCase() : "";
+
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmedEmail) || trimmedEmail.length > 255) {
+      return jsonResponse({ error: "Invalid email address" }, 400);
+    }
+
+    if (!INVITABLE_ROLES.includes(role)) {
+      return jsonResponse({ error: "Invalid role" }, 400);
+    }
+
+    if (role === "member" && !employeeId) {
+      return jsonResponse({ error: "Members must be linked to a person" }, 400);
+    }
+
+    if (employeeId) {
+      const { data: employee } = await adminClient
+        .from("employees")
+        .select("id")
+        .eq("id", employeeId)
+        .eq("tenant_id", caller.tenant_id)
+        .maybeSingle();
+
+      if (!employee) {
+        return jsonResponse({ error: "Employee not found" }, 404);
+      }
+    }
+
+    // The pending membership is linked to the new auth user by handle_new_user
+    const { data: member, error: memberError } = await adminClient
+      .from("tenant_members")
+      .insert({
+        tenant_id: caller.tenant_id,
+        employee_id: employeeId || null,
+        email: trimmedEmail,
+        role,
+      })
+      .select()
+      .single();
+
+    if (memberError) {
+      return jsonResponse({ error: "This person or email already has an account" }, 409);
+    }
+
+    const { error: inviteError } = await adminClient.auth.admin.inviteUserByEmail(trimmedEmail, {
+      redirectTo,
+    });
+
+    if (inviteError) {
+      await adminClient.from("tenant_members").delete().eq("id", member.id);
+      return jsonResponse({ error: inviteError.message }, 400);
+    }
+
+    return jsonResponse({ member });
+  } catch (error) {
+    console.error("Error inviting member:", error);
+    return jsonResponse({ error: "Failed to invite member" }, 500);
+  }
+});
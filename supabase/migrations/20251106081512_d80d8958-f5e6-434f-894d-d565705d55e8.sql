@@ -0,0 +1,57 @@
+-- Apply scheduled and recurring statuses on the server instead of when the board is opened
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+CREATE OR REPLACE FUNCTION public.apply_daily_statuses(p_tenant_id UUID DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today DATE := current_date;
+BEGIN
+  -- Signed-in users can only run the job for their own tenant
+  IF auth.uid() IS NOT NULL THEN
+    p_tenant_id := auth.uid();
+  END IF;
+
+  -- Apply scheduled statuses FIRST so they take priority over recurring
+  UPDATE public.employees e
+  SET status = s.status_text,
+      already_applied = true,
+      applied_date = v_today
+  FROM public.scheduled_statuses s
+  WHERE s.employee_id = e.id
+    AND s.scheduled_date = v_today
+    AND (p_tenant_id IS NULL OR e.tenant_id = p_tenant_id)
+    AND (e.already_applied IS NOT TRUE OR e.applied_date IS DISTINCT FROM v_today);
+
+  -- Employees updated above are now marked as applied for today and are skipped here
+  UPDATE public.employees e
+  SET status = r.status_text,
+      already_applied = true,
+      applied_date = v_today
+  FROM public.recurring_statuses r
+  WHERE r.employee_id = e.id
+    AND r.day_of_week = EXTRACT(DOW FROM v_today)
+    AND e.recurring_enabled IS TRUE
+    AND (p_tenant_id IS NULL OR e.tenant_id = p_tenant_id)
+    AND (e.already_applied IS NOT TRUE OR e.applied_date IS DISTINCT FROM v_today);
+
+  -- Delete only past scheduled statuses (before today)
+  DELETE FROM public.scheduled_statuses
+  WHERE scheduled_date < v_today
+    AND (p_tenant_id IS NULL OR tenant_id = p_tenant_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_daily_statuses(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.apply_daily_statuses(UUID) TO authenticated, service_role;
+
+-- Run every 15 minutes; employees already applied today are skipped, so this only
+-- changes anything right after midnight or when tracking fields have been cleared
+SELECT cron.schedule(
+  'apply-daily-statuses',
+  '*/15 * * * *',
+  $$SELECT public.apply_daily_statuses()$$
+);
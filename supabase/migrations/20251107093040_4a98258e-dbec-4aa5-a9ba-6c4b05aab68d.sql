@@ -0,0 +1,112 @@
+-- Create status_history table to keep a log of every employee status change
+CREATE TABLE public.status_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  old_status TEXT,
+  new_status TEXT,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'scheduled', 'recurring')),
+  changed_by UUID,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.status_history ENABLE ROW LEVEL SECURITY;
+
+-- History is written by the trigger below only, so users can just read it
+CREATE POLICY "Users can view their own status history"
+ON public.status_history
+FOR SELECT
+USING (auth.uid() = tenant_id);
+
+CREATE INDEX idx_status_history_employee ON public.status_history(employee_id, changed_at);
+CREATE INDEX idx_status_history_tenant ON public.status_history(tenant_id, changed_at);
+
+-- Record status changes. Server-side appliers set app.status_source for their transaction,
+-- anything else is a manual change.
+CREATE OR REPLACE FUNCTION public.log_employee_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.status_history (employee_id, tenant_id, old_status, new_status, source, changed_by)
+  VALUES (
+    NEW.id,
+    NEW.tenant_id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    COALESCE(NULLIF(current_setting('app.status_source', true), ''), 'manual'),
+    auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_employees_status_change
+AFTER INSERT OR UPDATE OF status ON public.employees
+FOR EACH ROW
+EXECUTE FUNCTION public.log_employee_status_change();
+
+-- Start everyone's history with the status they have now, as of their last update,
+-- so people whose status doesn't change again still show up in reports
+INSERT INTO public.status_history (employee_id, tenant_id, old_status, new_status, source, changed_at)
+SELECT e.id, e.tenant_id, NULL, e.status, 'manual', COALESCE(e.updated_at, e.created_at, now())
+FROM public.employees e;
+
+-- Tag the changes made by the daily job with their source
+CREATE OR REPLACE FUNCTION public.apply_daily_statuses(p_tenant_id UUID DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today DATE := current_date;
+BEGIN
+  -- Signed-in users can only run the job for their own tenant
+  IF auth.uid() IS NOT NULL THEN
+    p_tenant_id := auth.uid();
+  END IF;
+
+  -- Apply scheduled statuses FIRST so they take priority over recurring
+  PERFORM set_config('app.status_source', 'scheduled', true);
+
+  UPDATE public.employees e
+  SET status = s.status_text,
+      already_applied = true,
+      applied_date = v_today
+  FROM public.scheduled_statuses s
+  WHERE s.employee_id = e.id
+    AND s.scheduled_date = v_today
+    AND (p_tenant_id IS NULL OR e.tenant_id = p_tenant_id)
+    AND (e.already_applied IS NOT TRUE OR e.applied_date IS DISTINCT FROM v_today);
+
+  -- Employees updated above are now marked as applied for today and are skipped here
+  PERFORM set_config('app.status_source', 'recurring', true);
+
+  UPDATE public.employees e
+  SET status = r.status_text,
+      already_applied = true,
+      applied_date = v_today
+  FROM public.recurring_statuses r
+  WHERE r.employee_id = e.id
+    AND r.day_of_week = EXTRACT(DOW FROM v_today)
+    AND e.recurring_enabled IS TRUE
+    AND (p_tenant_id IS NULL OR e.tenant_id = p_tenant_id)
+    AND (e.already_applied IS NOT TRUE OR e.applied_date IS DISTINCT FROM v_today);
+
+  PERFORM set_config('app.status_source', '', true);
+
+  -- Delete only past scheduled statuses (before today)
+  DELETE FROM public.scheduled_statuses
+  WHERE scheduled_date < v_today
+    AND (p_tenant_id IS NULL OR tenant_id = p_tenant_id);
+END;
+$$;
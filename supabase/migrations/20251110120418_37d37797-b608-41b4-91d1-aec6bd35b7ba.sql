@@ -0,0 +1,69 @@
+-- Allow scheduled statuses to cover a date range. scheduled_date is the first day of the range.
+ALTER TABLE public.scheduled_statuses
+ADD COLUMN end_date DATE,
+ADD COLUMN skip_weekends BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.scheduled_statuses SET end_date = scheduled_date;
+
+ALTER TABLE public.scheduled_statuses
+ALTER COLUMN end_date SET NOT NULL,
+ADD CONSTRAINT scheduled_statuses_date_range_check CHECK (end_date >= scheduled_date);
+
+CREATE INDEX idx_scheduled_statuses_end_date ON public.scheduled_statuses(end_date);
+
+-- Treat any range covering today as active
+CREATE OR REPLACE FUNCTION public.apply_daily_statuses(p_tenant_id UUID DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today DATE := current_date;
+BEGIN
+  -- Signed-in users can only run the job for their own tenant
+  IF auth.uid() IS NOT NULL THEN
+    p_tenant_id := auth.uid();
+  END IF;
+
+  -- Apply scheduled statuses FIRST so they take priority over recurring.
+  -- When ranges overlap, the most recently created one wins.
+  PERFORM set_config('app.status_source', 'scheduled', true);
+
+  UPDATE public.employees e
+  SET status = s.status_text,
+      already_applied = true,
+      applied_date = v_today
+  FROM (
+    SELECT DISTINCT ON (employee_id) employee_id, status_text
+    FROM public.scheduled_statuses
+    WHERE v_today BETWEEN scheduled_date AND end_date
+      AND NOT (skip_weekends AND EXTRACT(ISODOW FROM v_today) IN (6, 7))
+    ORDER BY employee_id, created_at DESC
+  ) s
+  WHERE s.employee_id = e.id
+    AND (p_tenant_id IS NULL OR e.tenant_id = p_tenant_id)
+    AND (e.already_applied IS NOT TRUE OR e.applied_date IS DISTINCT FROM v_today);
+
+  -- Employees updated above are now marked as applied for today and are skipped here
+  PERFORM set_config('app.status_source', 'recurring', true);
+
+  UPDATE public.employees e
+  SET status = r.status_text,
+      already_applied = true,
+      applied_date = v_today
+  FROM public.recurring_statuses r
+  WHERE r.employee_id = e.id
+    AND r.day_of_week = EXTRACT(DOW FROM v_today)
+    AND e.recurring_enabled IS TRUE
+    AND (p_tenant_id IS NULL OR e.tenant_id = p_tenant_id)
+    AND (e.already_applied IS NOT TRUE OR e.applied_date IS DISTINCT FROM v_today);
+
+  PERFORM set_config('app.status_source', '', true);
+
+  -- Delete only scheduled statuses that ended before today
+  DELETE FROM public.scheduled_statuses
+  WHERE end_date < v_today
+    AND (p_tenant_id IS NULL OR tenant_id = p_tenant_id);
+END;
+$$;
@@ -0,0 +1,117 @@
+-- Add a tenant time zone used for every "today" calculation
+CREATE OR REPLACE FUNCTION public.is_valid_time_zone(p_time_zone TEXT)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM now() AT TIME ZONE p_time_zone;
+  RETURN true;
+EXCEPTION WHEN invalid_parameter_value THEN
+  RETURN false;
+END;
+$$;
+
+ALTER TABLE public.profiles
+ADD COLUMN time_zone TEXT NOT NULL DEFAULT 'UTC',
+ADD CONSTRAINT profiles_time_zone_check CHECK (public.is_valid_time_zone(time_zone));
+
+-- Current date in the tenant's time zone
+CREATE OR REPLACE FUNCTION public.tenant_today(p_tenant_id UUID)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (now() AT TIME ZONE COALESCE(
+    (SELECT time_zone FROM public.profiles WHERE id = p_tenant_id),
+    'UTC'
+  ))::date;
+$$;
+
+-- Pick up the browser time zone sent on sign up
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_time_zone TEXT := COALESCE(new.raw_user_meta_data->>'time_zone', 'UTC');
+BEGIN
+  IF NOT public.is_valid_time_zone(v_time_zone) THEN
+    v_time_zone := 'UTC';
+  END IF;
+
+  INSERT INTO public.profiles (id, company_name, time_zone)
+  VALUES (new.id, COALESCE(new.raw_user_meta_data->>'company_name', 'My Company'), v_time_zone)
+  ON CONFLICT (id) DO NOTHING;
+  RETURN new;
+END;
+$$;
+
+-- Apply statuses per tenant using the tenant's own date, so each tenant flips at local midnight
+CREATE OR REPLACE FUNCTION public.apply_daily_statuses(p_tenant_id UUID DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant RECORD;
+BEGIN
+  -- Signed-in users can only run the job for their own tenant
+  IF auth.uid() IS NOT NULL THEN
+    p_tenant_id := auth.uid();
+  END IF;
+
+  FOR v_tenant IN
+    SELECT id, public.tenant_today(id) AS today
+    FROM public.profiles
+    WHERE p_tenant_id IS NULL OR id = p_tenant_id
+  LOOP
+    -- Apply scheduled statuses FIRST so they take priority over recurring.
+    -- When ranges overlap, the most recently created one wins.
+    PERFORM set_config('app.status_source', 'scheduled', true);
+
+    UPDATE public.employees e
+    SET status = s.status_text,
+        already_applied = true,
+        applied_date = v_tenant.today
+    FROM (
+      SELECT DISTINCT ON (employee_id) employee_id, status_text
+      FROM public.scheduled_statuses
+      WHERE tenant_id = v_tenant.id
+        AND v_tenant.today BETWEEN scheduled_date AND end_date
+        AND NOT (skip_weekends AND EXTRACT(ISODOW FROM v_tenant.today) IN (6, 7))
+      ORDER BY employee_id, created_at DESC
+    ) s
+    WHERE s.employee_id = e.id
+      AND e.tenant_id = v_tenant.id
+      AND (e.already_applied IS NOT TRUE OR e.applied_date IS DISTINCT FROM v_tenant.today);
+
+    -- Employees updated above are now marked as applied for today and are skipped here
+    PERFORM set_config('app.status_source', 'recurring', true);
+
+    UPDATE public.employees e
+    SET status = r.status_text,
+        already_applied = true,
+        applied_date = v_tenant.today
+    FROM public.recurring_statuses r
+    WHERE r.employee_id = e.id
+      AND r.day_of_week = EXTRACT(DOW FROM v_tenant.today)
+      AND e.recurring_enabled IS TRUE
+      AND e.tenant_id = v_tenant.id
+      AND (e.already_applied IS NOT TRUE OR e.applied_date IS DISTINCT FROM v_tenant.today);
+
+    PERFORM set_config('app.status_source', '', true);
+
+    -- Delete only scheduled statuses that ended before the tenant's today
+    DELETE FROM public.scheduled_statuses
+    WHERE end_date < v_tenant.today
+      AND tenant_id = v_tenant.id;
+  END LOOP;
+END;
+$$;
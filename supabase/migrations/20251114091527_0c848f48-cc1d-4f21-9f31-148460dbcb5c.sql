@@ -0,0 +1,136 @@
+-- Per-tenant default status that everyone is reset to at a configurable time of day
+ALTER TABLE public.profiles
+ADD COLUMN default_status TEXT,
+ADD COLUMN reset_time TIME,
+ADD COLUMN last_reset_date DATE;
+
+ALTER TABLE public.status_history DROP CONSTRAINT IF EXISTS status_history_source_check;
+ALTER TABLE public.status_history
+ADD CONSTRAINT status_history_source_check CHECK (source IN ('manual', 'scheduled', 'recurring', 'reset'));
+
+-- The status an employee should have on a date according to their scheduled and
+-- recurring entries. Scheduled entries win over recurring ones, and among overlapping
+-- scheduled ranges the most recently created one wins.
+CREATE OR REPLACE FUNCTION public.resolve_employee_status(p_employee_id UUID, p_date DATE)
+RETURNS TABLE (status_text TEXT, source TEXT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT entries.status_text, entries.source
+  FROM (
+    SELECT s.status_text, 'scheduled' AS source, 1 AS priority, s.created_at
+    FROM public.scheduled_statuses s
+    WHERE s.employee_id = p_employee_id
+      AND p_date BETWEEN s.scheduled_date AND s.end_date
+      AND NOT (s.skip_weekends AND EXTRACT(ISODOW FROM p_date) IN (6, 7))
+
+    UNION ALL
+
+    SELECT r.status_text, 'recurring' AS source, 2 AS priority, r.created_at
+    FROM public.recurring_statuses r
+    JOIN public.employees e ON e.id = r.employee_id
+    WHERE r.employee_id = p_employee_id
+      AND e.recurring_enabled IS TRUE
+      AND r.day_of_week = EXTRACT(DOW FROM p_date)
+  ) entries
+  ORDER BY entries.priority, entries.created_at DESC
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_daily_statuses(p_tenant_id UUID DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant RECORD;
+  v_entry RECORD;
+  v_reset_date DATE;
+BEGIN
+  -- Signed-in users can only run the job for their own tenant
+  IF auth.uid() IS NOT NULL THEN
+    p_tenant_id := auth.uid();
+  END IF;
+
+  FOR v_tenant IN
+    SELECT
+      id,
+      default_status,
+      reset_time,
+      last_reset_date,
+      (now() AT TIME ZONE time_zone)::date AS today,
+      (now() AT TIME ZONE time_zone)::time AS local_time
+    FROM public.profiles
+    WHERE p_tenant_id IS NULL OR id = p_tenant_id
+  LOOP
+    -- Apply today's scheduled or recurring status to everyone not yet applied today.
+    -- applied_date can be tomorrow when an evening reset already prepared the next day.
+    FOR v_entry IN
+      SELECT e.id, resolved.status_text, resolved.source
+      FROM public.employees e
+      CROSS JOIN LATERAL public.resolve_employee_status(e.id, v_tenant.today) resolved
+      WHERE e.tenant_id = v_tenant.id
+        AND (e.already_applied IS NOT TRUE OR e.applied_date IS NULL OR e.applied_date < v_tenant.today)
+    LOOP
+      PERFORM set_config('app.status_source', v_entry.source, true);
+
+      UPDATE public.employees
+      SET status = v_entry.status_text,
+          already_applied = true,
+          applied_date = v_tenant.today
+      WHERE id = v_entry.id;
+    END LOOP;
+
+    -- Reset to the default status once a day when the reset time has passed.
+    -- A reset in the afternoon or evening prepares the next day, so anyone with a
+    -- scheduled or recurring entry tomorrow gets that status instead of the default.
+    -- A morning reset leaves people with an entry for today alone.
+    IF v_tenant.default_status IS NOT NULL
+      AND v_tenant.reset_time IS NOT NULL
+      AND v_tenant.local_time >= v_tenant.reset_time
+      AND v_tenant.last_reset_date IS DISTINCT FROM v_tenant.today
+    THEN
+      v_reset_date := CASE
+        WHEN v_tenant.reset_time >= TIME '12:00' THEN v_tenant.today + 1
+        ELSE v_tenant.today
+      END;
+
+      FOR v_entry IN
+        SELECT e.id, resolved.status_text, resolved.source
+        FROM public.employees e
+        LEFT JOIN LATERAL public.resolve_employee_status(e.id, v_reset_date) resolved ON true
+        WHERE e.tenant_id = v_tenant.id
+      LOOP
+        IF v_entry.source IS NULL THEN
+          PERFORM set_config('app.status_source', 'reset', true);
+
+          UPDATE public.employees
+          SET status = v_tenant.default_status
+          WHERE id = v_entry.id;
+        ELSIF v_reset_date > v_tenant.today THEN
+          PERFORM set_config('app.status_source', v_entry.source, true);
+
+          UPDATE public.employees
+          SET status = v_entry.status_text,
+              already_applied = true,
+              applied_date = v_reset_date
+          WHERE id = v_entry.id;
+        END IF;
+      END LOOP;
+
+      UPDATE public.profiles
+      SET last_reset_date = v_tenant.today
+      WHERE id = v_tenant.id;
+    END IF;
+
+    PERFORM set_config('app.status_source', '', true);
+
+    -- Delete only scheduled statuses that ended before the tenant's today
+    DELETE FROM public.scheduled_statuses
+    WHERE end_date < v_tenant.today
+      AND tenant_id = v_tenant.id;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,256 @@
+-- Individual member accounts that belong to a tenant and are linked to one employee row.
+-- The tenant owner is still the auth user whose id is the tenant_id.
+CREATE TABLE public.tenant_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  user_id UUID UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL UNIQUE REFERENCES public.employees(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_tenant_members_email ON public.tenant_members(lower(email));
+CREATE INDEX idx_tenant_members_tenant_id ON public.tenant_members(tenant_id);
+
+ALTER TABLE public.tenant_members ENABLE ROW LEVEL SECURITY;
+
+-- The tenant a signed-in user belongs to: their membership, or their own tenant as owner
+CREATE OR REPLACE FUNCTION public.current_tenant_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT tenant_id FROM public.tenant_members WHERE user_id = auth.uid()),
+    auth.uid()
+  );
+$$;
+
+-- The employee row linked to a signed-in member (NULL for tenant owners)
+CREATE OR REPLACE FUNCTION public.current_employee_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT employee_id FROM public.tenant_members WHERE user_id = auth.uid();
+$$;
+
+CREATE POLICY "Owners can view their members"
+ON public.tenant_members FOR SELECT
+USING (auth.uid() = tenant_id OR auth.uid() = user_id);
+
+CREATE POLICY "Owners can remove their members"
+ON public.tenant_members FOR DELETE
+USING (auth.uid() = tenant_id);
+
+-- Invited users are linked to their pending membership instead of getting a tenant of their own
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_time_zone TEXT := COALESCE(new.raw_user_meta_data->>'time_zone', 'UTC');
+BEGIN
+  UPDATE public.tenant_members
+  SET user_id = new.id
+  WHERE user_id IS NULL
+    AND lower(email) = lower(new.email);
+
+  IF FOUND THEN
+    RETURN new;
+  END IF;
+
+  IF NOT public.is_valid_time_zone(v_time_zone) THEN
+    v_time_zone := 'UTC';
+  END IF;
+
+  INSERT INTO public.profiles (id, company_name, time_zone)
+  VALUES (new.id, COALESCE(new.raw_user_meta_data->>'company_name', 'My Company'), v_time_zone)
+  ON CONFLICT (id) DO NOTHING;
+  RETURN new;
+END;
+$$;
+
+-- Members can read their tenant's profile
+CREATE POLICY "Members can view their tenant profile"
+ON public.profiles FOR SELECT
+USING (id = public.current_tenant_id());
+
+-- Employees: members see the whole board but only update their own row
+DROP POLICY IF EXISTS "Users can view their own employees" ON public.employees;
+CREATE POLICY "Tenant users can view employees"
+ON public.employees FOR SELECT
+USING (tenant_id = public.current_tenant_id());
+
+DROP POLICY IF EXISTS "Users can update their own employees" ON public.employees;
+CREATE POLICY "Owners and linked members can update employees"
+ON public.employees FOR UPDATE
+USING (auth.uid() = tenant_id OR id = public.current_employee_id());
+
+-- Predefined statuses: readable by members, managed by the owner
+DROP POLICY IF EXISTS "Users can view their own predefined statuses" ON public.predefined_statuses;
+CREATE POLICY "Tenant users can view predefined statuses"
+ON public.predefined_statuses FOR SELECT
+USING (tenant_id = public.current_tenant_id());
+
+-- Scheduled and recurring statuses: members manage their own schedule
+DROP POLICY IF EXISTS "Users can view their own scheduled statuses" ON public.scheduled_statuses;
+CREATE POLICY "Tenant users can view scheduled statuses"
+ON public.scheduled_statuses FOR SELECT
+USING (tenant_id = public.current_tenant_id());
+
+DROP POLICY IF EXISTS "Users can insert their own scheduled statuses" ON public.scheduled_statuses;
+CREATE POLICY "Owners and linked members can insert scheduled statuses"
+ON public.scheduled_statuses FOR INSERT
+WITH CHECK (
+  auth.uid() = tenant_id
+  OR (tenant_id = public.current_tenant_id() AND employee_id = public.current_employee_id())
+);
+
+DROP POLICY IF EXISTS "Users can update their own scheduled statuses" ON public.scheduled_statuses;
+CREATE POLICY "Owners and linked members can update scheduled statuses"
+ON public.scheduled_statuses FOR UPDATE
+USING (auth.uid() = tenant_id OR employee_id = public.current_employee_id());
+
+DROP POLICY IF EXISTS "Users can delete their own scheduled statuses" ON public.scheduled_statuses;
+CREATE POLICY "Owners and linked members can delete scheduled statuses"
+ON public.scheduled_statuses FOR DELETE
+USING (auth.uid() = tenant_id OR employee_id = public.current_employee_id());
+
+DROP POLICY IF EXISTS "Users can view their own recurring statuses" ON public.recurring_statuses;
+CREATE POLICY "Tenant users can view recurring statuses"
+ON public.recurring_statuses FOR SELECT
+USING (tenant_id = public.current_tenant_id());
+
+DROP POLICY IF EXISTS "Users can insert their own recurring statuses" ON public.recurring_statuses;
+CREATE POLICY "Owners and linked members can insert recurring statuses"
+ON public.recurring_statuses FOR INSERT
+WITH CHECK (
+  auth.uid() = tenant_id
+  OR (tenant_id = public.current_tenant_id() AND employee_id = public.current_employee_id())
+);
+
+DROP POLICY IF EXISTS "Users can update their own recurring statuses" ON public.recurring_statuses;
+CREATE POLICY "Owners and linked members can update recurring statuses"
+ON public.recurring_statuses FOR UPDATE
+USING (auth.uid() = tenant_id OR employee_id = public.current_employee_id());
+
+DROP POLICY IF EXISTS "Users can delete their own recurring statuses" ON public.recurring_statuses;
+CREATE POLICY "Owners and linked members can delete recurring statuses"
+ON public.recurring_statuses FOR DELETE
+USING (auth.uid() = tenant_id OR employee_id = public.current_employee_id());
+
+-- Daily message and status history: readable by members
+DROP POLICY IF EXISTS "Users can view their own daily messages" ON public.daily_messages;
+CREATE POLICY "Tenant users can view daily messages"
+ON public.daily_messages FOR SELECT
+USING (tenant_id = public.current_tenant_id());
+
+DROP POLICY IF EXISTS "Users can view their own status history" ON public.status_history;
+CREATE POLICY "Tenant users can view status history"
+ON public.status_history FOR SELECT
+USING (tenant_id = public.current_tenant_id());
+
+-- Members re-running the daily job after editing their schedule run it for their tenant
+CREATE OR REPLACE FUNCTION public.apply_daily_statuses(p_tenant_id UUID DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant RECORD;
+  v_entry RECORD;
+  v_reset_date DATE;
+BEGIN
+  -- Signed-in users can only run the job for their own tenant
+  IF auth.uid() IS NOT NULL THEN
+    p_tenant_id := public.current_tenant_id();
+  END IF;
+
+  FOR v_tenant IN
+    SELECT
+      id,
+      default_status,
+      reset_time,
+      last_reset_date,
+      (now() AT TIME ZONE time_zone)::date AS today,
+      (now() AT TIME ZONE time_zone)::time AS local_time
+    FROM public.profiles
+    WHERE p_tenant_id IS NULL OR id = p_tenant_id
+  LOOP
+    -- Apply today's scheduled or recurring status to everyone not yet applied today.
+    -- applied_date can be tomorrow when an evening reset already prepared the next day.
+    FOR v_entry IN
+      SELECT e.id, resolved.status_text, resolved.source
+      FROM public.employees e
+      CROSS JOIN LATERAL public.resolve_employee_status(e.id, v_tenant.today) resolved
+      WHERE e.tenant_id = v_tenant.id
+        AND (e.already_applied IS NOT TRUE OR e.applied_date IS NULL OR e.applied_date < v_tenant.today)
+    LOOP
+      PERFORM set_config('app.status_source', v_entry.source, true);
+
+      UPDATE public.employees
+      SET status = v_entry.status_text,
+          already_applied = true,
+          applied_date = v_tenant.today
+      WHERE id = v_entry.id;
+    END LOOP;
+
+    -- Reset to the default status once a day when the reset time has passed.
+    -- A reset in the afternoon or evening prepares the next day, so anyone with a
+    -- scheduled or recurring entry tomorrow gets that status instead of the default.
+    -- A morning reset leaves people with an entry for today alone.
+    IF v_tenant.default_status IS NOT NULL
+      AND v_tenant.reset_time IS NOT NULL
+      AND v_tenant.local_time >= v_tenant.reset_time
+      AND v_tenant.last_reset_date IS DISTINCT FROM v_tenant.today
+    THEN
+      v_reset_date := CASE
+        WHEN v_tenant.reset_time >= TIME '12:00' THEN v_tenant.today + 1
+        ELSE v_tenant.today
+      END;
+
+      FOR v_entry IN
+        SELECT e.id, resolved.status_text, resolved.source
+        FROM public.employees e
+        LEFT JOIN LATERAL public.resolve_employee_status(e.id, v_reset_date) resolved ON true
+        WHERE e.tenant_id = v_tenant.id
+      LOOP
+        IF v_entry.source IS NULL THEN
+          PERFORM set_config('app.status_source', 'reset', true);
+
+          UPDATE public.employees
+          SET status = v_tenant.default_status
+          WHERE id = v_entry.id;
+        ELSIF v_reset_date > v_tenant.today THEN
+          PERFORM set_config('app.status_source', v_entry.source, true);
+
+          UPDATE public.employees
+          SET status = v_entry.status_text,
+              already_applied = true,
+              applied_date = v_reset_date
+          WHERE id = v_entry.id;
+        END IF;
+      END LOOP;
+
+      UPDATE public.profiles
+      SET last_reset_date = v_tenant.today
+      WHERE id = v_tenant.id;
+    END IF;
+
+    PERFORM set_config('app.status_source', '', true);
+
+    -- Delete only scheduled statuses that ended before the tenant's today
+    DELETE FROM public.scheduled_statuses
+    WHERE end_date < v_tenant.today
+      AND tenant_id = v_tenant.id;
+  END LOOP;
+END;
+$$;
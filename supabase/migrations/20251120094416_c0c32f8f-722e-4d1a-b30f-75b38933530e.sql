@@ -0,0 +1,213 @@
+-- Server-enforced roles. Every signed-in user now has a membership row, including the
+-- tenant owner, and the role on that row decides what they may change.
+--   owner:  created the tenant, full access, cannot be removed
+--   admin:  manages people, statuses, settings and members
+--   member: sees the board, changes only their own employee row and schedule
+--   viewer: read-only, e.g. a shared office screen
+ALTER TABLE public.tenant_members
+ALTER COLUMN employee_id DROP NOT NULL;
+
+ALTER TABLE public.tenant_members
+ADD COLUMN role TEXT NOT NULL DEFAULT 'member'
+CHECK (role IN ('owner', 'admin', 'member', 'viewer'));
+
+-- A member role only makes sense when linked to a person on the board
+ALTER TABLE public.tenant_members
+ADD CONSTRAINT tenant_members_member_employee_check
+CHECK (role <> 'member' OR employee_id IS NOT NULL);
+
+-- Backfill an owner membership for every existing tenant
+INSERT INTO public.tenant_members (tenant_id, user_id, email, role)
+SELECT p.id, u.id, u.email, 'owner'
+FROM public.profiles p
+JOIN auth.users u ON u.id = p.id
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.current_tenant_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT tenant_id FROM public.tenant_members WHERE user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.current_tenant_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.tenant_members WHERE user_id = auth.uid();
+$$;
+
+-- The employee row a signed-in user may edit as themselves (never for viewers)
+CREATE OR REPLACE FUNCTION public.current_employee_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT employee_id FROM public.tenant_members WHERE user_id = auth.uid() AND role <> 'viewer';
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_tenant_admin(p_tenant_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.tenant_members
+    WHERE user_id = auth.uid()
+      AND tenant_id = p_tenant_id
+      AND role IN ('owner', 'admin')
+  );
+$$;
+
+-- New sign-ups either claim a pending invitation or become the owner of a new tenant
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_time_zone TEXT := COALESCE(new.raw_user_meta_data->>'time_zone', 'UTC');
+BEGIN
+  UPDATE public.tenant_members
+  SET user_id = new.id
+  WHERE user_id IS NULL
+    AND lower(email) = lower(new.email);
+
+  IF FOUND THEN
+    RETURN new;
+  END IF;
+
+  IF NOT public.is_valid_time_zone(v_time_zone) THEN
+    v_time_zone := 'UTC';
+  END IF;
+
+  INSERT INTO public.profiles (id, company_name, time_zone)
+  VALUES (new.id, COALESCE(new.raw_user_meta_data->>'company_name', 'My Company'), v_time_zone)
+  ON CONFLICT (id) DO NOTHING;
+
+  INSERT INTO public.tenant_members (tenant_id, user_id, email, role)
+  VALUES (new.id, new.id, new.email, 'owner')
+  ON CONFLICT DO NOTHING;
+
+  RETURN new;
+END;
+$$;
+
+-- Members: everyone sees their own row, admins see and manage the tenant's members.
+-- The owner row can never be changed or removed through the API.
+DROP POLICY IF EXISTS "Owners can view their members" ON public.tenant_members;
+CREATE POLICY "Users can view their membership and admins all members"
+ON public.tenant_members FOR SELECT
+USING (auth.uid() = user_id OR public.is_tenant_admin(tenant_id));
+
+CREATE POLICY "Admins can change member roles"
+ON public.tenant_members FOR UPDATE
+USING (public.is_tenant_admin(tenant_id) AND role <> 'owner')
+WITH CHECK (public.is_tenant_admin(tenant_id) AND role <> 'owner');
+
+DROP POLICY IF EXISTS "Owners can remove their members" ON public.tenant_members;
+CREATE POLICY "Admins can remove members"
+ON public.tenant_members FOR DELETE
+USING (public.is_tenant_admin(tenant_id) AND role <> 'owner');
+
+-- Admins can change company settings; deleting the tenant stays with the owner
+CREATE POLICY "Admins can update their tenant profile"
+ON public.profiles FOR UPDATE
+USING (public.is_tenant_admin(id));
+
+-- Employees
+DROP POLICY IF EXISTS "Users can insert their own employees" ON public.employees;
+CREATE POLICY "Admins can insert employees"
+ON public.employees FOR INSERT
+WITH CHECK (public.is_tenant_admin(tenant_id));
+
+DROP POLICY IF EXISTS "Owners and linked members can update employees" ON public.employees;
+CREATE POLICY "Admins and linked members can update employees"
+ON public.employees FOR UPDATE
+USING (public.is_tenant_admin(tenant_id) OR id = public.current_employee_id());
+
+DROP POLICY IF EXISTS "Users can delete their own employees" ON public.employees;
+CREATE POLICY "Admins can delete employees"
+ON public.employees FOR DELETE
+USING (public.is_tenant_admin(tenant_id));
+
+-- Predefined statuses
+DROP POLICY IF EXISTS "Users can insert their own predefined statuses" ON public.predefined_statuses;
+CREATE POLICY "Admins can insert predefined statuses"
+ON public.predefined_statuses FOR INSERT
+WITH CHECK (public.is_tenant_admin(tenant_id));
+
+DROP POLICY IF EXISTS "Users can update their own predefined statuses" ON public.predefined_statuses;
+CREATE POLICY "Admins can update predefined statuses"
+ON public.predefined_statuses FOR UPDATE
+USING (public.is_tenant_admin(tenant_id));
+
+DROP POLICY IF EXISTS "Users can delete their own predefined statuses" ON public.predefined_statuses;
+CREATE POLICY "Admins can delete predefined statuses"
+ON public.predefined_statuses FOR DELETE
+USING (public.is_tenant_admin(tenant_id));
+
+-- Scheduled statuses
+DROP POLICY IF EXISTS "Owners and linked members can insert scheduled statuses" ON public.scheduled_statuses;
+CREATE POLICY "Admins and linked members can insert scheduled statuses"
+ON public.scheduled_statuses FOR INSERT
+WITH CHECK (
+  public.is_tenant_admin(tenant_id)
+  OR (tenant_id = public.current_tenant_id() AND employee_id = public.current_employee_id())
+);
+
+DROP POLICY IF EXISTS "Owners and linked members can update scheduled statuses" ON public.scheduled_statuses;
+CREATE POLICY "Admins and linked members can update scheduled statuses"
+ON public.scheduled_statuses FOR UPDATE
+USING (public.is_tenant_admin(tenant_id) OR employee_id = public.current_employee_id());
+
+DROP POLICY IF EXISTS "Owners and linked members can delete scheduled statuses" ON public.scheduled_statuses;
+CREATE POLICY "Admins and linked members can delete scheduled statuses"
+ON public.scheduled_statuses FOR DELETE
+USING (public.is_tenant_admin(tenant_id) OR employee_id = public.current_employee_id());
+
+-- Recurring statuses
+DROP POLICY IF EXISTS "Owners and linked members can insert recurring statuses" ON public.recurring_statuses;
+CREATE POLICY "Admins and linked members can insert recurring statuses"
+ON public.recurring_statuses FOR INSERT
+WITH CHECK (
+  public.is_tenant_admin(tenant_id)
+  OR (tenant_id = public.current_tenant_id() AND employee_id = public.current_employee_id())
+);
+
+DROP POLICY IF EXISTS "Owners and linked members can update recurring statuses" ON public.recurring_statuses;
+CREATE POLICY "Admins and linked members can update recurring statuses"
+ON public.recurring_statuses FOR UPDATE
+USING (public.is_tenant_admin(tenant_id) OR employee_id = public.current_employee_id());
+
+DROP POLICY IF EXISTS "Owners and linked members can delete recurring statuses" ON public.recurring_statuses;
+CREATE POLICY "Admins and linked members can delete recurring statuses"
+ON public.recurring_statuses FOR DELETE
+USING (public.is_tenant_admin(tenant_id) OR employee_id = public.current_employee_id());
+
+-- Daily message
+DROP POLICY IF EXISTS "Users can insert their own daily messages" ON public.daily_messages;
+CREATE POLICY "Admins can insert daily messages"
+ON public.daily_messages FOR INSERT
+WITH CHECK (public.is_tenant_admin(tenant_id));
+
+DROP POLICY IF EXISTS "Users can update their own daily messages" ON public.daily_messages;
+CREATE POLICY "Admins can update daily messages"
+ON public.daily_messages FOR UPDATE
+USING (public.is_tenant_admin(tenant_id));
+
+DROP POLICY IF EXISTS "Users can delete their own daily messages" ON public.daily_messages;
+CREATE POLICY "Admins can delete daily messages"
+ON public.daily_messages FOR DELETE
+USING (public.is_tenant_admin(tenant_id));
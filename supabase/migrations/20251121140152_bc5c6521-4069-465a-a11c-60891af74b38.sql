@@ -0,0 +1,116 @@
+-- Long-lived read-only tokens for wall displays, so an office screen can show the
+-- board without anyone's password being stored on it
+CREATE TABLE public.display_tokens (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', ''),
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_display_tokens_tenant_id ON public.display_tokens(tenant_id);
+
+ALTER TABLE public.display_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view display tokens"
+ON public.display_tokens FOR SELECT
+USING (public.is_tenant_admin(tenant_id));
+
+CREATE POLICY "Admins can create display tokens"
+ON public.display_tokens FOR INSERT
+WITH CHECK (public.is_tenant_admin(tenant_id));
+
+CREATE POLICY "Admins can revoke display tokens"
+ON public.display_tokens FOR DELETE
+USING (public.is_tenant_admin(tenant_id));
+
+-- Everything the display needs in one call. Anonymous callers only get data for the
+-- tenant the token belongs to, and only the fields shown on the board.
+CREATE OR REPLACE FUNCTION public.get_display_board(p_token TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_display RECORD;
+BEGIN
+  SELECT id, tenant_id, last_used_at INTO v_display
+  FROM public.display_tokens
+  WHERE token = p_token;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid display token' USING ERRCODE = '28000';
+  END IF;
+
+  -- Displays poll often, so only record usage every few minutes
+  IF v_display.last_used_at IS NULL OR v_display.last_used_at < now() - INTERVAL '5 minutes' THEN
+    UPDATE public.display_tokens SET last_used_at = now() WHERE id = v_display.id;
+  END IF;
+
+  RETURN (
+    SELECT json_build_object(
+      'company_name', p.company_name,
+      'time_zone', p.time_zone,
+      'message', (SELECT m.message_text FROM public.daily_messages m WHERE m.tenant_id = p.id),
+      'employees', COALESCE((
+        SELECT json_agg(json_build_object(
+          'id', e.id,
+          'name', e.name,
+          'status', e.status,
+          'image_url', e.image_url
+        ) ORDER BY e.name)
+        FROM public.employees e
+        WHERE e.tenant_id = p.id
+      ), '[]'::json)
+    )
+    FROM public.profiles p
+    WHERE p.id = v_display.tenant_id
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_display_board(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_display_board(TEXT) TO anon, authenticated;
+
+-- Token-based displays can't use postgres_changes (they have no RLS access), so
+-- changes are announced on a public broadcast topic named after each token.
+-- The payload carries no data; displays refetch through get_display_board.
+CREATE OR REPLACE FUNCTION public.broadcast_display_refresh()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant_id UUID := COALESCE(NEW.tenant_id, OLD.tenant_id);
+  v_token TEXT;
+BEGIN
+  FOR v_token IN
+    SELECT token FROM public.display_tokens WHERE tenant_id = v_tenant_id
+  LOOP
+    PERFORM realtime.send(
+      jsonb_build_object('table', TG_TABLE_NAME),
+      'refresh',
+      'display:' || v_token,
+      false
+    );
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER broadcast_employees_display_refresh
+AFTER INSERT OR UPDATE OR DELETE ON public.employees
+FOR EACH ROW
+EXECUTE FUNCTION public.broadcast_display_refresh();
+
+CREATE TRIGGER broadcast_daily_messages_display_refresh
+AFTER INSERT OR UPDATE OR DELETE ON public.daily_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.broadcast_display_refresh();
+
+-- Signed-in displays subscribe to the daily message as well as employees
+ALTER PUBLICATION supabase_realtime ADD TABLE public.daily_messages;
@@ -0,0 +1,81 @@
+-- Appearance and presence category for predefined statuses.
+-- color is a #rrggbb hex value, icon is a lucide icon name.
+ALTER TABLE public.predefined_statuses
+ADD COLUMN color TEXT CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+ADD COLUMN icon TEXT,
+ADD COLUMN category TEXT NOT NULL DEFAULT 'present'
+CHECK (category IN ('present', 'away', 'unavailable'));
+
+-- Give the default In / Out statuses a sensible look
+UPDATE public.predefined_statuses
+SET color = '#22c55e', icon = 'CircleCheck', category = 'present'
+WHERE lower(status_text) = 'in';
+
+UPDATE public.predefined_statuses
+SET color = '#ef4444', icon = 'CircleX', category = 'away'
+WHERE lower(status_text) = 'out';
+
+-- The display board also needs the status appearance
+CREATE OR REPLACE FUNCTION public.get_display_board(p_token TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_display RECORD;
+BEGIN
+  SELECT id, tenant_id, last_used_at INTO v_display
+  FROM public.display_tokens
+  WHERE token = p_token;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid display token' USING ERRCODE = '28000';
+  END IF;
+
+  -- Displays poll often, so only record usage every few minutes
+  IF v_display.last_used_at IS NULL OR v_display.last_used_at < now() - INTERVAL '5 minutes' THEN
+    UPDATE public.display_tokens SET last_used_at = now() WHERE id = v_display.id;
+  END IF;
+
+  RETURN (
+    SELECT json_build_object(
+      'company_name', p.company_name,
+      'time_zone', p.time_zone,
+      'message', (SELECT m.message_text FROM public.daily_messages m WHERE m.tenant_id = p.id),
+      'employees', COALESCE((
+        SELECT json_agg(json_build_object(
+          'id', e.id,
+          'name', e.name,
+          'status', e.status,
+          'image_url', e.image_url
+        ) ORDER BY e.name)
+        FROM public.employees e
+        WHERE e.tenant_id = p.id
+      ), '[]'::json),
+      'statuses', COALESCE((
+        SELECT json_agg(json_build_object(
+          'id', s.id,
+          'status_text', s.status_text,
+          'color', s.color,
+          'icon', s.icon,
+          'category', s.category
+        ) ORDER BY s.created_at)
+        FROM public.predefined_statuses s
+        WHERE s.tenant_id = p.id
+      ), '[]'::json)
+    )
+    FROM public.profiles p
+    WHERE p.id = v_display.tenant_id
+  );
+END;
+$$;
+
+-- Status appearance changes should show up on displays right away
+CREATE TRIGGER broadcast_predefined_statuses_display_refresh
+AFTER INSERT OR UPDATE OR DELETE ON public.predefined_statuses
+FOR EACH ROW
+EXECUTE FUNCTION public.broadcast_display_refresh();
+
+-- Signed-in displays subscribe to status changes as well
+ALTER PUBLICATION supabase_realtime ADD TABLE public.predefined_statuses;
@@ -0,0 +1,156 @@
+-- Curated order for predefined statuses and the people on the board
+ALTER TABLE public.predefined_statuses ADD COLUMN sort_order INTEGER;
+ALTER TABLE public.employees ADD COLUMN sort_order INTEGER;
+
+-- Keep today's order: statuses as created, people alphabetically
+UPDATE public.predefined_statuses s
+SET sort_order = ordered.position
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY tenant_id ORDER BY created_at) AS position
+  FROM public.predefined_statuses
+) ordered
+WHERE s.id = ordered.id;
+
+UPDATE public.employees e
+SET sort_order = ordered.position
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY tenant_id ORDER BY name, created_at) AS position
+  FROM public.employees
+) ordered
+WHERE e.id = ordered.id;
+
+ALTER TABLE public.predefined_statuses ALTER COLUMN sort_order SET NOT NULL;
+ALTER TABLE public.employees ALTER COLUMN sort_order SET NOT NULL;
+
+CREATE INDEX idx_predefined_statuses_sort_order ON public.predefined_statuses(tenant_id, sort_order);
+CREATE INDEX idx_employees_sort_order ON public.employees(tenant_id, sort_order);
+
+-- New rows go to the end of their tenant's list unless an order is given
+CREATE OR REPLACE FUNCTION public.set_default_sort_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.sort_order IS NULL THEN
+    EXECUTE format(
+      'SELECT COALESCE(MAX(sort_order), 0) + 1 FROM %I.%I WHERE tenant_id = $1',
+      TG_TABLE_SCHEMA,
+      TG_TABLE_NAME
+    )
+    INTO NEW.sort_order
+    USING NEW.tenant_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_predefined_statuses_sort_order
+BEFORE INSERT ON public.predefined_statuses
+FOR EACH ROW
+EXECUTE FUNCTION public.set_default_sort_order();
+
+CREATE TRIGGER set_employees_sort_order
+BEFORE INSERT ON public.employees
+FOR EACH ROW
+EXECUTE FUNCTION public.set_default_sort_order();
+
+-- Save a new order in one call. The ids are given in their new order.
+CREATE OR REPLACE FUNCTION public.reorder_predefined_statuses(p_ids UUID[])
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.predefined_statuses
+    WHERE id = ANY(p_ids) AND NOT public.is_tenant_admin(tenant_id)
+  ) THEN
+    RAISE EXCEPTION 'Only admins can reorder statuses' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.predefined_statuses s
+  SET sort_order = ordered.position
+  FROM unnest(p_ids) WITH ORDINALITY AS ordered(id, position)
+  WHERE s.id = ordered.id
+    AND s.sort_order IS DISTINCT FROM ordered.position;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reorder_employees(p_ids UUID[])
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.employees
+    WHERE id = ANY(p_ids) AND NOT public.is_tenant_admin(tenant_id)
+  ) THEN
+    RAISE EXCEPTION 'Only admins can reorder people' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.employees e
+  SET sort_order = ordered.position
+  FROM unnest(p_ids) WITH ORDINALITY AS ordered(id, position)
+  WHERE e.id = ordered.id
+    AND e.sort_order IS DISTINCT FROM ordered.position;
+END;
+$$;
+
+-- The display board follows the curated order as well
+CREATE OR REPLACE FUNCTION public.get_display_board(p_token TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_display RECORD;
+BEGIN
+  SELECT id, tenant_id, last_used_at INTO v_display
+  FROM public.display_tokens
+  WHERE token = p_token;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid display token' USING ERRCODE = '28000';
+  END IF;
+
+  -- Displays poll often, so only record usage every few minutes
+  IF v_display.last_used_at IS NULL OR v_display.last_used_at < now() - INTERVAL '5 minutes' THEN
+    UPDATE public.display_tokens SET last_used_at = now() WHERE id = v_display.id;
+  END IF;
+
+  RETURN (
+    SELECT json_build_object(
+      'company_name', p.company_name,
+      'time_zone', p.time_zone,
+      'message', (SELECT m.message_text FROM public.daily_messages m WHERE m.tenant_id = p.id),
+      'employees', COALESCE((
+        SELECT json_agg(json_build_object(
+          'id', e.id,
+          'name', e.name,
+          'status', e.status,
+          'image_url', e.image_url
+        ) ORDER BY e.sort_order, e.name)
+        FROM public.employees e
+        WHERE e.tenant_id = p.id
+      ), '[]'::json),
+      'statuses', COALESCE((
+        SELECT json_agg(json_build_object(
+          'id', s.id,
+          'status_text', s.status_text,
+          'color', s.color,
+          'icon', s.icon,
+          'category', s.category
+        ) ORDER BY s.sort_order)
+        FROM public.predefined_statuses s
+        WHERE s.tenant_id = p.id
+      ), '[]'::json)
+    )
+    FROM public.profiles p
+    WHERE p.id = v_display.tenant_id
+  );
+END;
+$$;
@@ -0,0 +1,86 @@
+-- Departments group people on the board, e.g. Sales, Ops and Engineering
+CREATE TABLE public.departments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (tenant_id, name)
+);
+
+CREATE INDEX idx_departments_tenant_id ON public.departments(tenant_id);
+
+ALTER TABLE public.departments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant users can view departments"
+ON public.departments FOR SELECT
+USING (tenant_id = public.current_tenant_id());
+
+CREATE POLICY "Admins can insert departments"
+ON public.departments FOR INSERT
+WITH CHECK (public.is_tenant_admin(tenant_id));
+
+CREATE POLICY "Admins can update departments"
+ON public.departments FOR UPDATE
+USING (public.is_tenant_admin(tenant_id));
+
+CREATE POLICY "Admins can delete departments"
+ON public.departments FOR DELETE
+USING (public.is_tenant_admin(tenant_id));
+
+-- Removing a department leaves its people without one
+ALTER TABLE public.employees
+ADD COLUMN department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_employees_department_id ON public.employees(department_id);
+
+-- The foreign key alone would accept another tenant's department
+CREATE OR REPLACE FUNCTION public.check_employee_department()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.department_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.departments
+    WHERE id = NEW.department_id AND tenant_id = NEW.tenant_id
+  ) THEN
+    RAISE EXCEPTION 'Department belongs to another tenant' USING ERRCODE = '23503';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_employee_department
+BEFORE INSERT OR UPDATE OF department_id, tenant_id ON public.employees
+FOR EACH ROW
+EXECUTE FUNCTION public.check_employee_department();
+
+-- The board can now be filtered to some departments, so a reorder may only
+-- cover part of the list. Shuffle the given people within the positions they
+-- already hold instead of renumbering them from 1.
+CREATE OR REPLACE FUNCTION public.reorder_employees(p_ids UUID[])
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.employees
+    WHERE id = ANY(p_ids) AND NOT public.is_tenant_admin(tenant_id)
+  ) THEN
+    RAISE EXCEPTION 'Only admins can reorder people' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.employees e
+  SET sort_order = slots.sort_order
+  FROM unnest(p_ids) WITH ORDINALITY AS ordered(id, position)
+  JOIN (
+    SELECT sort_order, row_number() OVER (ORDER BY sort_order, id) AS position
+    FROM public.employees
+    WHERE id = ANY(p_ids)
+  ) slots ON slots.position = ordered.position
+  WHERE e.id = ordered.id
+    AND e.sort_order IS DISTINCT FROM slots.sort_order;
+END;
+$$;
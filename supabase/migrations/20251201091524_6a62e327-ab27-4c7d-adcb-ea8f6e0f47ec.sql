@@ -0,0 +1,41 @@
+-- One status per person per day for reports, read from the status history.
+-- A day counts as the status someone had at noon in the tenant's time zone,
+-- which skips early morning resets and late evening changes.
+-- Days before a person's first recorded status are left out.
+CREATE OR REPLACE FUNCTION public.get_daily_status_report(p_from DATE, p_to DATE)
+RETURNS TABLE (employee_id UUID, day DATE, status_text TEXT)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant_id UUID := public.current_tenant_id();
+BEGIN
+  IF p_to < p_from THEN
+    RAISE EXCEPTION 'The report period ends before it starts' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_to - p_from > 366 THEN
+    RAISE EXCEPTION 'Reports cover at most one year' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  SELECT e.id, d.day, h.new_status
+  FROM public.employees e
+  JOIN public.profiles p ON p.id = e.tenant_id
+  CROSS JOIN LATERAL (
+    SELECT g::date AS day
+    FROM generate_series(p_from, LEAST(p_to, public.tenant_today(e.tenant_id)), INTERVAL '1 day') AS g
+  ) d
+  CROSS JOIN LATERAL (
+    SELECT sh.new_status
+    FROM public.status_history sh
+    WHERE sh.employee_id = e.id
+      AND sh.changed_at <= (d.day + TIME '12:00') AT TIME ZONE p.time_zone
+    ORDER BY sh.changed_at DESC
+    LIMIT 1
+  ) h
+  WHERE e.tenant_id = v_tenant_id
+  ORDER BY e.sort_order, d.day;
+END;
+$$;
@@ -0,0 +1,37 @@
+-- Secret tokens for iCalendar feeds. A token without an employee is the
+-- whole tenant's feed; otherwise it only covers that one person.
+CREATE TABLE public.calendar_feed_tokens (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  employee_id UUID REFERENCES public.employees(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', ''),
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (tenant_id, employee_id)
+);
+
+CREATE INDEX idx_calendar_feed_tokens_employee_id ON public.calendar_feed_tokens(employee_id);
+
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Admins manage every feed, members only the feed of their own schedule
+CREATE POLICY "Admins and linked members can view calendar feeds"
+ON public.calendar_feed_tokens FOR SELECT
+USING (
+  public.is_tenant_admin(tenant_id)
+  OR (tenant_id = public.current_tenant_id() AND employee_id = public.current_employee_id())
+);
+
+CREATE POLICY "Admins and linked members can create calendar feeds"
+ON public.calendar_feed_tokens FOR INSERT
+WITH CHECK (
+  public.is_tenant_admin(tenant_id)
+  OR (tenant_id = public.current_tenant_id() AND employee_id = public.current_employee_id())
+);
+
+CREATE POLICY "Admins and linked members can revoke calendar feeds"
+ON public.calendar_feed_tokens FOR DELETE
+USING (
+  public.is_tenant_admin(tenant_id)
+  OR (tenant_id = public.current_tenant_id() AND employee_id = public.current_employee_id())
+);
@@ -0,0 +1,115 @@
+-- Bulk actions on the board. Each call changes every selected person in one
+-- transaction, so either all of them get the new status or none do.
+
+CREATE OR REPLACE FUNCTION public.assert_bulk_admin(p_employee_ids UUID[])
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_employee_ids IS NULL OR cardinality(p_employee_ids) = 0 THEN
+    RAISE EXCEPTION 'No people selected' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.employees
+    WHERE id = ANY(p_employee_ids) AND NOT public.is_tenant_admin(tenant_id)
+  ) THEN
+    RAISE EXCEPTION 'Only admins can change several people at once' USING ERRCODE = '42501';
+  END IF;
+END;
+$$;
+
+-- Sets the current status of everyone selected
+CREATE OR REPLACE FUNCTION public.bulk_set_status(p_employee_ids UUID[], p_status TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.assert_bulk_admin(p_employee_ids);
+
+  IF trim(COALESCE(p_status, '')) = '' THEN
+    RAISE EXCEPTION 'Status cannot be empty' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.employees
+  SET status = trim(p_status)
+  WHERE id = ANY(p_employee_ids)
+    AND status IS DISTINCT FROM trim(p_status);
+END;
+$$;
+
+-- Adds the same scheduled status to everyone selected, and applies it straight
+-- away when the period includes today
+CREATE OR REPLACE FUNCTION public.bulk_schedule_status(
+  p_employee_ids UUID[],
+  p_from DATE,
+  p_to DATE,
+  p_status TEXT,
+  p_skip_weekends BOOLEAN DEFAULT false
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.assert_bulk_admin(p_employee_ids);
+
+  IF trim(COALESCE(p_status, '')) = '' THEN
+    RAISE EXCEPTION 'Status cannot be empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_to < p_from THEN
+    RAISE EXCEPTION 'The period must end on or after its first day' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.scheduled_statuses (employee_id, tenant_id, scheduled_date, end_date, skip_weekends, status_text)
+  SELECT id, tenant_id, p_from, p_to, COALESCE(p_skip_weekends, false), trim(p_status)
+  FROM public.employees
+  WHERE id = ANY(p_employee_ids);
+
+  UPDATE public.employees
+  SET already_applied = false, applied_date = NULL
+  WHERE id = ANY(p_employee_ids)
+    AND public.tenant_today(tenant_id) BETWEEN p_from AND p_to;
+
+  PERFORM public.apply_daily_statuses();
+END;
+$$;
+
+-- Replaces the weekly pattern of everyone selected. p_pattern maps a day of the
+-- week (0 = Sunday) to a status, e.g. {"1": "Office", "5": "Remote"}; days that
+-- are left out get no recurring status. Recurring statuses are switched on.
+CREATE OR REPLACE FUNCTION public.bulk_set_recurring_statuses(p_employee_ids UUID[], p_pattern JSONB)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.assert_bulk_admin(p_employee_ids);
+
+  IF jsonb_typeof(p_pattern) IS DISTINCT FROM 'object' OR EXISTS (
+    SELECT 1 FROM jsonb_each_text(p_pattern) AS days(day, status_text)
+    WHERE days.day !~ '^[0-6]$' OR trim(COALESCE(days.status_text, '')) = ''
+  ) THEN
+    RAISE EXCEPTION 'Invalid recurring pattern' USING ERRCODE = '22023';
+  END IF;
+
+  DELETE FROM public.recurring_statuses
+  WHERE employee_id = ANY(p_employee_ids);
+
+  INSERT INTO public.recurring_statuses (employee_id, tenant_id, day_of_week, status_text)
+  SELECT e.id, e.tenant_id, days.day::INTEGER, trim(days.status_text)
+  FROM public.employees e
+  CROSS JOIN jsonb_each_text(p_pattern) AS days(day, status_text)
+  WHERE e.id = ANY(p_employee_ids);
+
+  UPDATE public.employees
+  SET recurring_enabled = true, already_applied = false, applied_date = NULL
+  WHERE id = ANY(p_employee_ids);
+
+  PERFORM public.apply_daily_statuses();
+END;
+$$;
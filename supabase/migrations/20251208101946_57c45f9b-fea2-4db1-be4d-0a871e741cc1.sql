@@ -0,0 +1,73 @@
+-- Public holidays and other days the whole company is closed
+CREATE TABLE public.holidays (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (tenant_id, date)
+);
+
+ALTER TABLE public.holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant users can view holidays"
+ON public.holidays FOR SELECT
+USING (tenant_id = public.current_tenant_id());
+
+CREATE POLICY "Admins can insert holidays"
+ON public.holidays FOR INSERT
+WITH CHECK (public.is_tenant_admin(tenant_id));
+
+CREATE POLICY "Admins can update holidays"
+ON public.holidays FOR UPDATE
+USING (public.is_tenant_admin(tenant_id));
+
+CREATE POLICY "Admins can delete holidays"
+ON public.holidays FOR DELETE
+USING (public.is_tenant_admin(tenant_id));
+
+-- The status everyone gets on a holiday
+ALTER TABLE public.profiles
+ADD COLUMN holiday_status TEXT NOT NULL DEFAULT 'Holiday'
+CHECK (char_length(btrim(holiday_status)) BETWEEN 1 AND 100);
+
+ALTER TABLE public.status_history DROP CONSTRAINT IF EXISTS status_history_source_check;
+ALTER TABLE public.status_history
+ADD CONSTRAINT status_history_source_check CHECK (source IN ('manual', 'scheduled', 'holiday', 'recurring', 'reset'));
+
+-- Holidays sit between scheduled and recurring entries: someone who scheduled
+-- a status for the day keeps it, everyone else gets the holiday status.
+CREATE OR REPLACE FUNCTION public.resolve_employee_status(p_employee_id UUID, p_date DATE)
+RETURNS TABLE (status_text TEXT, source TEXT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT entries.status_text, entries.source
+  FROM (
+    SELECT s.status_text, 'scheduled' AS source, 1 AS priority, s.created_at
+    FROM public.scheduled_statuses s
+    WHERE s.employee_id = p_employee_id
+      AND p_date BETWEEN s.scheduled_date AND s.end_date
+      AND NOT (s.skip_weekends AND EXTRACT(ISODOW FROM p_date) IN (6, 7))
+
+    UNION ALL
+
+    SELECT p.holiday_status, 'holiday' AS source, 2 AS priority, h.created_at
+    FROM public.employees e
+    JOIN public.holidays h ON h.tenant_id = e.tenant_id AND h.date = p_date
+    JOIN public.profiles p ON p.id = e.tenant_id
+    WHERE e.id = p_employee_id
+
+    UNION ALL
+
+    SELECT r.status_text, 'recurring' AS source, 3 AS priority, r.created_at
+    FROM public.recurring_statuses r
+    JOIN public.employees e ON e.id = r.employee_id
+    WHERE r.employee_id = p_employee_id
+      AND e.recurring_enabled IS TRUE
+      AND r.day_of_week = EXTRACT(DOW FROM p_date)
+  ) entries
+  ORDER BY entries.priority, entries.created_at DESC
+  LIMIT 1;
+$$;
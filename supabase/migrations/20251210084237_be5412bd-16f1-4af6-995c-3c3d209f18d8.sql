@@ -0,0 +1,110 @@
+-- Recurring statuses become rules: every n weeks on a weekday, or the nth
+-- weekday of every month, optionally only between two dates. A person can
+-- have several rules for the same weekday; the first one in their order wins.
+ALTER TABLE public.recurring_statuses
+DROP CONSTRAINT IF EXISTS recurring_statuses_employee_id_day_of_week_key;
+
+ALTER TABLE public.recurring_statuses
+ADD COLUMN frequency TEXT NOT NULL DEFAULT 'weekly' CHECK (frequency IN ('weekly', 'monthly')),
+ADD COLUMN interval_weeks INTEGER NOT NULL DEFAULT 1 CHECK (interval_weeks BETWEEN 1 AND 12),
+-- 1 to 4 for the first to fourth weekday of the month, -1 for the last one
+ADD COLUMN week_of_month INTEGER CHECK (week_of_month IN (-1, 1, 2, 3, 4)),
+ADD COLUMN starts_on DATE,
+ADD COLUMN ends_on DATE,
+ADD COLUMN sort_order INTEGER NOT NULL DEFAULT 0;
+
+-- Every other week needs a week to count from, which is the week of starts_on
+ALTER TABLE public.recurring_statuses
+ADD CONSTRAINT recurring_statuses_pattern_check CHECK (
+  (frequency = 'weekly' AND week_of_month IS NULL AND (interval_weeks = 1 OR starts_on IS NOT NULL))
+  OR (frequency = 'monthly' AND week_of_month IS NOT NULL AND interval_weeks = 1)
+),
+ADD CONSTRAINT recurring_statuses_validity_check CHECK (
+  starts_on IS NULL OR ends_on IS NULL OR ends_on >= starts_on
+);
+
+-- Keep the old Monday-first order for existing rules
+UPDATE public.recurring_statuses
+SET sort_order = (day_of_week + 6) % 7;
+
+CREATE INDEX idx_recurring_statuses_employee_order ON public.recurring_statuses(employee_id, sort_order);
+
+CREATE OR REPLACE FUNCTION public.recurring_status_applies(
+  p_day_of_week INTEGER,
+  p_frequency TEXT,
+  p_interval_weeks INTEGER,
+  p_week_of_month INTEGER,
+  p_starts_on DATE,
+  p_ends_on DATE,
+  p_date DATE
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT p_day_of_week = EXTRACT(DOW FROM p_date)
+    AND (p_starts_on IS NULL OR p_date >= p_starts_on)
+    AND (p_ends_on IS NULL OR p_date <= p_ends_on)
+    AND CASE
+      WHEN p_frequency = 'monthly' AND p_week_of_month = -1 THEN
+        EXTRACT(MONTH FROM p_date + 7) <> EXTRACT(MONTH FROM p_date)
+      WHEN p_frequency = 'monthly' THEN
+        (EXTRACT(DAY FROM p_date)::INTEGER - 1) / 7 + 1 = p_week_of_month
+      ELSE
+        p_interval_weeks = 1
+        OR ((p_date - (p_starts_on - (EXTRACT(ISODOW FROM p_starts_on)::INTEGER - 1))) / 7) % p_interval_weeks = 0
+    END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.resolve_employee_status(p_employee_id UUID, p_date DATE)
+RETURNS TABLE (status_text TEXT, source TEXT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT entries.status_text, entries.source
+  FROM (
+    SELECT s.status_text, 'scheduled' AS source, 1 AS priority, 0 AS rank, s.created_at
+    FROM public.scheduled_statuses s
+    WHERE s.employee_id = p_employee_id
+      AND p_date BETWEEN s.scheduled_date AND s.end_date
+      AND NOT (s.skip_weekends AND EXTRACT(ISODOW FROM p_date) IN (6, 7))
+
+    UNION ALL
+
+    SELECT p.holiday_status, 'holiday' AS source, 2 AS priority, 0 AS rank, h.created_at
+    FROM public.employees e
+    JOIN public.holidays h ON h.tenant_id = e.tenant_id AND h.date = p_date
+    JOIN public.profiles p ON p.id = e.tenant_id
+    WHERE e.id = p_employee_id
+
+    UNION ALL
+
+    SELECT r.status_text, 'recurring' AS source, 3 AS priority, r.sort_order AS rank, r.created_at
+    FROM public.recurring_statuses r
+    JOIN public.employees e ON e.id = r.employee_id
+    WHERE r.employee_id = p_employee_id
+      AND e.recurring_enabled IS TRUE
+      AND public.recurring_status_applies(
+        r.day_of_week, r.frequency, r.interval_weeks, r.week_of_month, r.starts_on, r.ends_on, p_date
+      )
+  ) entries
+  ORDER BY entries.priority, entries.rank, entries.created_at DESC
+  LIMIT 1;
+$$;
+
+-- Members may reorder their own rules, so the row policies decide what can be changed
+CREATE OR REPLACE FUNCTION public.reorder_recurring_statuses(p_ids UUID[])
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.recurring_statuses r
+  SET sort_order = ordered.position
+  FROM unnest(p_ids) WITH ORDINALITY AS ordered(id, position)
+  WHERE r.id = ordered.id
+    AND r.sort_order IS DISTINCT FROM ordered.position;
+END;
+$$;
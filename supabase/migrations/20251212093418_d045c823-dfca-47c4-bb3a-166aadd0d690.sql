@@ -0,0 +1,70 @@
+-- A status can be set for a while ("At lunch" for an hour), after which it
+-- reverts to the status the person had before
+ALTER TABLE public.employees
+ADD COLUMN status_expires_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN status_revert_to TEXT;
+
+CREATE INDEX idx_employees_status_expires_at ON public.employees(status_expires_at)
+WHERE status_expires_at IS NOT NULL;
+
+ALTER TABLE public.status_history DROP CONSTRAINT IF EXISTS status_history_source_check;
+ALTER TABLE public.status_history
+ADD CONSTRAINT status_history_source_check CHECK (source IN ('manual', 'scheduled', 'holiday', 'recurring', 'reset', 'expired'));
+
+-- Clients only set status_expires_at; what to revert to is worked out here, so
+-- every other way of changing a status (daily job, bulk actions) simply ends it
+CREATE OR REPLACE FUNCTION public.track_status_expiry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status_expires_at IS NOT NULL AND NEW.status_expires_at IS DISTINCT FROM OLD.status_expires_at THEN
+    -- Replacing a temporary status keeps the one from before it
+    NEW.status_revert_to := CASE
+      WHEN OLD.status_expires_at IS NOT NULL THEN OLD.status_revert_to
+      ELSE OLD.status
+    END;
+  ELSIF NEW.status_expires_at IS NULL OR NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.status_expires_at := NULL;
+    NEW.status_revert_to := NULL;
+  ELSE
+    NEW.status_revert_to := OLD.status_revert_to;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_employees_status_expiry
+BEFORE UPDATE ON public.employees
+FOR EACH ROW
+EXECUTE FUNCTION public.track_status_expiry();
+
+CREATE OR REPLACE FUNCTION public.revert_expired_statuses()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.status_source', 'expired', true);
+
+  UPDATE public.employees e
+  SET status = COALESCE(e.status_revert_to, p.default_status, e.status),
+      status_expires_at = NULL
+  FROM public.profiles p
+  WHERE p.id = e.tenant_id
+    AND e.status_expires_at <= now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.revert_expired_statuses() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.revert_expired_statuses() TO service_role;
+
+-- Every minute, so "until 14:00" ends close to 14:00
+SELECT cron.schedule(
+  'revert-expired-statuses',
+  '* * * * *',
+  $$SELECT public.revert_expired_statuses()$$
+);
@@ -0,0 +1,33 @@
+-- Details that go with the current status, instead of squeezing them into
+-- the status text ("Out - back Thursday, call Per")
+ALTER TABLE public.employees
+ADD COLUMN status_note TEXT CHECK (char_length(status_note) <= 200),
+ADD COLUMN status_return_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN status_contact TEXT CHECK (char_length(status_contact) <= 100);
+
+-- The details belong to the status they were written for, so they go when the
+-- status changes, unless the same update sets new ones
+CREATE OR REPLACE FUNCTION public.clear_status_details()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NEW.status_note IS NOT DISTINCT FROM OLD.status_note
+    AND NEW.status_return_at IS NOT DISTINCT FROM OLD.status_return_at
+    AND NEW.status_contact IS NOT DISTINCT FROM OLD.status_contact
+  THEN
+    NEW.status_note := NULL;
+    NEW.status_return_at := NULL;
+    NEW.status_contact := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_employees_status_details
+BEFORE UPDATE OF status ON public.employees
+FOR EACH ROW
+EXECUTE FUNCTION public.clear_status_details();
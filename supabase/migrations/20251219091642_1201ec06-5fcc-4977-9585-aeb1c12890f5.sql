@@ -0,0 +1,37 @@
+-- The planner shows everyone's status for each day of a week or month, resolved
+-- the same way the daily job applies them. part_day is set when a timed entry
+-- changes the status during that day.
+CREATE OR REPLACE FUNCTION public.get_planner(p_from DATE, p_to DATE)
+RETURNS TABLE (employee_id UUID, day DATE, status_text TEXT, source TEXT, part_day BOOLEAN)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant_id UUID := public.current_tenant_id();
+BEGIN
+  IF p_to < p_from THEN
+    RAISE EXCEPTION 'The planner period ends before it starts' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_to - p_from > 42 THEN
+    RAISE EXCEPTION 'The planner covers at most six weeks' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    e.id,
+    d.day,
+    resolved.status_text,
+    resolved.source,
+    public.next_status_change_time(e.id, d.day) IS NOT NULL
+  FROM public.employees e
+  CROSS JOIN LATERAL (
+    SELECT g::date AS day
+    FROM generate_series(p_from, p_to, INTERVAL '1 day') AS g
+  ) d
+  LEFT JOIN LATERAL public.resolve_employee_status(e.id, d.day) resolved ON true
+  WHERE e.tenant_id = v_tenant_id
+  ORDER BY e.sort_order, d.day;
+END;
+$$;
@@ -0,0 +1,88 @@
+-- How many people the office has room for on a day. NULL means no limit.
+ALTER TABLE public.profiles
+ADD COLUMN office_capacity INTEGER CHECK (office_capacity > 0);
+
+-- Statuses that take up a desk in the office. Working from home can be a
+-- present status without counting towards the office capacity.
+ALTER TABLE public.predefined_statuses
+ADD COLUMN counts_on_site BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.predefined_statuses
+SET counts_on_site = true
+WHERE lower(trim(status_text)) = 'in';
+
+-- Whether someone is in the office at any time of a day: with their whole-day
+-- status, or with a timed entry from when it starts
+CREATE OR REPLACE FUNCTION public.employee_on_site(p_employee_id UUID, p_date DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM (
+      SELECT NULL::TIME AS at_time
+
+      UNION ALL
+
+      SELECT s.start_time
+      FROM public.scheduled_statuses s
+      WHERE s.employee_id = p_employee_id
+        AND s.start_time IS NOT NULL
+        AND p_date BETWEEN s.scheduled_date AND s.end_date
+        AND NOT (s.skip_weekends AND EXTRACT(ISODOW FROM p_date) IN (6, 7))
+
+      UNION ALL
+
+      SELECT r.start_time
+      FROM public.recurring_statuses r
+      JOIN public.employees e ON e.id = r.employee_id
+      WHERE r.employee_id = p_employee_id
+        AND r.start_time IS NOT NULL
+        AND e.recurring_enabled IS TRUE
+        AND public.recurring_status_applies(
+          r.day_of_week, r.frequency, r.interval_weeks, r.week_of_month, r.starts_on, r.ends_on, p_date
+        )
+    ) times
+    CROSS JOIN LATERAL public.resolve_employee_status(p_employee_id, p_date, times.at_time) resolved
+    JOIN public.employees e ON e.id = p_employee_id
+    JOIN public.predefined_statuses ps
+      ON ps.tenant_id = e.tenant_id
+      AND lower(trim(ps.status_text)) = lower(trim(resolved.status_text))
+    WHERE ps.counts_on_site
+  );
+$$;
+
+-- Who is expected in the office on each day of a period, from the scheduled,
+-- holiday and recurring statuses
+CREATE OR REPLACE FUNCTION public.get_office_occupancy(p_from DATE, p_to DATE)
+RETURNS TABLE (day DATE, employee_ids UUID[])
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant_id UUID := public.current_tenant_id();
+BEGIN
+  IF p_to < p_from THEN
+    RAISE EXCEPTION 'The forecast period ends before it starts' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_to - p_from > 366 THEN
+    RAISE EXCEPTION 'Forecasts cover at most one year' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.day,
+    COALESCE(array_agg(e.id) FILTER (WHERE public.employee_on_site(e.id, d.day)), ARRAY[]::UUID[])
+  FROM (
+    SELECT g::date AS day
+    FROM generate_series(p_from, p_to, INTERVAL '1 day') AS g
+  ) d
+  LEFT JOIN public.employees e ON e.tenant_id = v_tenant_id
+  GROUP BY d.day
+  ORDER BY d.day;
+END;
+$$;
@@ -0,0 +1,66 @@
+-- Members can only change their own status and schedule. The update policies
+-- also check the new row, so a member cannot move a row to another tenant or
+-- another person.
+DROP POLICY IF EXISTS "Admins and linked members can update employees" ON public.employees;
+CREATE POLICY "Admins and linked members can update employees"
+ON public.employees FOR UPDATE
+USING (public.is_tenant_admin(tenant_id) OR id = public.current_employee_id())
+WITH CHECK (tenant_id = public.current_tenant_id());
+
+DROP POLICY IF EXISTS "Admins and linked members can update scheduled statuses" ON public.scheduled_statuses;
+CREATE POLICY "Admins and linked members can update scheduled statuses"
+ON public.scheduled_statuses FOR UPDATE
+USING (public.is_tenant_admin(tenant_id) OR employee_id = public.current_employee_id())
+WITH CHECK (
+  public.is_tenant_admin(tenant_id)
+  OR (tenant_id = public.current_tenant_id() AND employee_id = public.current_employee_id())
+);
+
+DROP POLICY IF EXISTS "Admins and linked members can update recurring statuses" ON public.recurring_statuses;
+CREATE POLICY "Admins and linked members can update recurring statuses"
+ON public.recurring_statuses FOR UPDATE
+USING (public.is_tenant_admin(tenant_id) OR employee_id = public.current_employee_id())
+WITH CHECK (
+  public.is_tenant_admin(tenant_id)
+  OR (tenant_id = public.current_tenant_id() AND employee_id = public.current_employee_id())
+);
+
+-- Row policies cannot limit columns, so a trigger rejects changes by a member to
+-- anything but their status, its details and whether recurring statuses apply.
+-- The daily jobs run as the table owner and are not affected.
+CREATE OR REPLACE FUNCTION public.guard_member_employee_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_member_columns TEXT[] := ARRAY[
+    'status', 'status_expires_at', 'status_revert_to', 'status_note', 'status_return_at', 'status_contact',
+    'recurring_enabled', 'already_applied', 'applied_date', 'updated_at'
+  ];
+BEGIN
+  IF current_user <> 'authenticated' OR public.is_tenant_admin(OLD.tenant_id) THEN
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - v_member_columns) IS DISTINCT FROM (to_jsonb(OLD) - v_member_columns) THEN
+    RAISE EXCEPTION 'Members can only change their own status and schedule' USING ERRCODE = '42501';
+  END IF;
+
+  -- Clearing the applied flags makes the job apply the day's status again;
+  -- setting them is left to the job
+  IF (NEW.already_applied IS TRUE AND OLD.already_applied IS NOT TRUE)
+    OR (NEW.applied_date IS NOT NULL AND NEW.applied_date IS DISTINCT FROM OLD.applied_date)
+  THEN
+    RAISE EXCEPTION 'Members can only change their own status and schedule' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_member_employee_update ON public.employees;
+CREATE TRIGGER guard_member_employee_update
+BEFORE UPDATE ON public.employees
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_member_employee_update();
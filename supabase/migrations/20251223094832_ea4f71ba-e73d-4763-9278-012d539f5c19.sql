@@ -0,0 +1,162 @@
+-- A signed-in user who no longer belongs to a tenant must not run the job for
+-- all tenants
+CREATE OR REPLACE FUNCTION public.apply_daily_statuses(p_tenant_id UUID DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant RECORD;
+  v_entry RECORD;
+  v_reset_date DATE;
+  v_next_time TIME;
+  v_next_at TIMESTAMP WITH TIME ZONE;
+  v_next_status TEXT;
+BEGIN
+  -- Signed-in users can only run the job for their own tenant
+  IF auth.uid() IS NOT NULL THEN
+    p_tenant_id := public.current_tenant_id();
+
+    -- Without a tenant, e.g. after being removed, a NULL here would mean every tenant
+    IF p_tenant_id IS NULL THEN
+      RAISE EXCEPTION 'Only members of a tenant can apply its statuses' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  FOR v_tenant IN
+    SELECT
+      id,
+      time_zone,
+      default_status,
+      reset_time,
+      last_reset_date,
+      (now() AT TIME ZONE time_zone)::date AS today,
+      (now() AT TIME ZONE time_zone)::time AS local_time
+    FROM public.profiles
+    WHERE p_tenant_id IS NULL OR id = p_tenant_id
+  LOOP
+    -- Apply the status active right now to everyone not yet applied today, and to
+    -- anyone whose timed entry has just started or ended.
+    -- applied_date can be tomorrow when an evening reset already prepared the next day.
+    FOR v_entry IN
+      SELECT
+        e.id,
+        resolved.status_text,
+        resolved.source,
+        (e.already_applied IS TRUE AND e.applied_date >= v_tenant.today) AS applied_today,
+        e.next_status AS previous_next_status,
+        e.next_status_change_at AS previous_next_at
+      FROM public.employees e
+      LEFT JOIN LATERAL public.resolve_employee_status(e.id, v_tenant.today, v_tenant.local_time) resolved ON true
+      WHERE e.tenant_id = v_tenant.id
+        AND (
+          e.already_applied IS NOT TRUE
+          OR e.applied_date IS NULL
+          OR e.applied_date < v_tenant.today
+          OR e.next_status_change_at <= now()
+        )
+    LOOP
+      v_next_time := public.next_status_change_time(v_entry.id, v_tenant.today, v_tenant.local_time);
+      v_next_at := (v_tenant.today + v_next_time) AT TIME ZONE v_tenant.time_zone;
+      v_next_status := NULL;
+      IF v_next_time IS NOT NULL THEN
+        SELECT next.status_text INTO v_next_status
+        FROM public.resolve_employee_status(v_entry.id, v_tenant.today, v_next_time) next;
+        v_next_status := COALESCE(v_next_status, v_tenant.default_status);
+      END IF;
+
+      IF v_entry.source IS NOT NULL THEN
+        PERFORM set_config('app.status_source', v_entry.source, true);
+
+        UPDATE public.employees
+        SET status = v_entry.status_text,
+            already_applied = true,
+            applied_date = v_tenant.today,
+            next_status = v_next_status,
+            next_status_change_at = v_next_at
+        WHERE id = v_entry.id;
+      ELSIF v_entry.applied_today AND v_tenant.default_status IS NOT NULL THEN
+        -- A timed entry ended and nothing else covers the rest of the day
+        PERFORM set_config('app.status_source', 'reset', true);
+
+        UPDATE public.employees
+        SET status = v_tenant.default_status,
+            next_status = v_next_status,
+            next_status_change_at = v_next_at
+        WHERE id = v_entry.id;
+      ELSIF v_entry.previous_next_status IS DISTINCT FROM v_next_status
+        OR v_entry.previous_next_at IS DISTINCT FROM v_next_at
+      THEN
+        UPDATE public.employees
+        SET next_status = v_next_status,
+            next_status_change_at = v_next_at
+        WHERE id = v_entry.id;
+      END IF;
+    END LOOP;
+
+    -- Reset to the default status once a day when the reset time has passed.
+    -- A reset in the afternoon or evening prepares the next day, so anyone with a
+    -- scheduled or recurring entry tomorrow gets that status instead of the default.
+    -- A morning reset leaves people with an entry for today alone.
+    IF v_tenant.default_status IS NOT NULL
+      AND v_tenant.reset_time IS NOT NULL
+      AND v_tenant.local_time >= v_tenant.reset_time
+      AND v_tenant.last_reset_date IS DISTINCT FROM v_tenant.today
+    THEN
+      v_reset_date := CASE
+        WHEN v_tenant.reset_time >= TIME '12:00' THEN v_tenant.today + 1
+        ELSE v_tenant.today
+      END;
+
+      FOR v_entry IN
+        SELECT e.id, resolved.status_text, resolved.source
+        FROM public.employees e
+        LEFT JOIN LATERAL public.resolve_employee_status(e.id, v_reset_date) resolved ON true
+        WHERE e.tenant_id = v_tenant.id
+      LOOP
+        IF v_entry.source IS NULL THEN
+          PERFORM set_config('app.status_source', 'reset', true);
+
+          UPDATE public.employees
+          SET status = v_tenant.default_status
+          WHERE id = v_entry.id;
+        ELSIF v_reset_date > v_tenant.today THEN
+          -- Timed entries tomorrow still take over when they start
+          v_next_time := public.next_status_change_time(v_entry.id, v_reset_date);
+          v_next_status := NULL;
+          IF v_next_time IS NOT NULL THEN
+            SELECT next.status_text INTO v_next_status
+            FROM public.resolve_employee_status(v_entry.id, v_reset_date, v_next_time) next;
+            v_next_status := COALESCE(v_next_status, v_tenant.default_status);
+          END IF;
+
+          PERFORM set_config('app.status_source', v_entry.source, true);
+
+          UPDATE public.employees
+          SET status = v_entry.status_text,
+              already_applied = true,
+              applied_date = v_reset_date,
+              next_status = v_next_status,
+              next_status_change_at = (v_reset_date + v_next_time) AT TIME ZONE v_tenant.time_zone
+          WHERE id = v_entry.id;
+        END IF;
+      END LOOP;
+
+      UPDATE public.profiles
+      SET last_reset_date = v_tenant.today
+      WHERE id = v_tenant.id;
+    END IF;
+
+    PERFORM set_config('app.status_source', '', true);
+
+    -- Delete only scheduled statuses that ended before the tenant's today
+    DELETE FROM public.scheduled_statuses
+    WHERE end_date < v_tenant.today
+      AND tenant_id = v_tenant.id;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_daily_statuses(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.apply_daily_statuses(UUID) TO authenticated, service_role;
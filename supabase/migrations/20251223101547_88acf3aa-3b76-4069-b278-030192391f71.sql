@@ -0,0 +1,203 @@
+-- When a timed entry ends and nothing else covers the rest of the day, the status
+-- goes back to what the person had before the entry started, instead of to the
+-- tenant's default status (or staying on the timed one when there is no default)
+ALTER TABLE public.employees
+ADD COLUMN status_before_timed TEXT;
+
+-- Changing the status by hand during a timed entry keeps that status when the
+-- entry ends. The daily job sets app.status_source, so its own changes keep it.
+CREATE OR REPLACE FUNCTION public.track_timed_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND COALESCE(NULLIF(current_setting('app.status_source', true), ''), 'manual') = 'manual'
+  THEN
+    NEW.status_before_timed := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_employees_timed_status
+BEFORE UPDATE ON public.employees
+FOR EACH ROW
+EXECUTE FUNCTION public.track_timed_status();
+
+CREATE OR REPLACE FUNCTION public.apply_daily_statuses(p_tenant_id UUID DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant RECORD;
+  v_entry RECORD;
+  v_reset_date DATE;
+  v_next_time TIME;
+  v_next_at TIMESTAMP WITH TIME ZONE;
+  v_next_status TEXT;
+  v_restore_status TEXT;
+BEGIN
+  -- Signed-in users can only run the job for their own tenant
+  IF auth.uid() IS NOT NULL THEN
+    p_tenant_id := public.current_tenant_id();
+
+    -- Without a tenant, e.g. after being removed, a NULL here would mean every tenant
+    IF p_tenant_id IS NULL THEN
+      RAISE EXCEPTION 'Only members of a tenant can apply its statuses' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  FOR v_tenant IN
+    SELECT
+      id,
+      time_zone,
+      default_status,
+      reset_time,
+      last_reset_date,
+      (now() AT TIME ZONE time_zone)::date AS today,
+      (now() AT TIME ZONE time_zone)::time AS local_time
+    FROM public.profiles
+    WHERE p_tenant_id IS NULL OR id = p_tenant_id
+  LOOP
+    -- Apply the status active right now to everyone not yet applied today, and to
+    -- anyone whose timed entry has just started or ended.
+    -- applied_date can be tomorrow when an evening reset already prepared the next day.
+    FOR v_entry IN
+      SELECT
+        e.id,
+        e.status AS current_status,
+        e.status_before_timed,
+        resolved.status_text,
+        resolved.source,
+        -- A timed entry is active when it gives a different status than the whole day would
+        (
+          resolved.source IS NOT NULL
+          AND (resolved.status_text, resolved.source) IS DISTINCT FROM (whole_day.status_text, whole_day.source)
+        ) AS timed,
+        e.next_status AS previous_next_status,
+        e.next_status_change_at AS previous_next_at
+      FROM public.employees e
+      LEFT JOIN LATERAL public.resolve_employee_status(e.id, v_tenant.today, v_tenant.local_time) resolved ON true
+      LEFT JOIN LATERAL public.resolve_employee_status(e.id, v_tenant.today) whole_day ON true
+      WHERE e.tenant_id = v_tenant.id
+        AND (
+          e.already_applied IS NOT TRUE
+          OR e.applied_date IS NULL
+          OR e.applied_date < v_tenant.today
+          OR e.next_status_change_at <= now()
+        )
+    LOOP
+      -- What the status goes back to once the timed entry ends
+      v_restore_status := CASE
+        WHEN v_entry.timed THEN COALESCE(v_entry.status_before_timed, v_entry.current_status)
+      END;
+
+      v_next_time := public.next_status_change_time(v_entry.id, v_tenant.today, v_tenant.local_time);
+      v_next_at := (v_tenant.today + v_next_time) AT TIME ZONE v_tenant.time_zone;
+      v_next_status := NULL;
+      IF v_next_time IS NOT NULL THEN
+        SELECT next.status_text INTO v_next_status
+        FROM public.resolve_employee_status(v_entry.id, v_tenant.today, v_next_time) next;
+        v_next_status := COALESCE(v_next_status, v_restore_status, v_entry.status_before_timed, v_entry.current_status);
+      END IF;
+
+      IF v_entry.source IS NOT NULL THEN
+        PERFORM set_config('app.status_source', v_entry.source, true);
+
+        UPDATE public.employees
+        SET status = v_entry.status_text,
+            status_before_timed = v_restore_status,
+            already_applied = true,
+            applied_date = v_tenant.today,
+            next_status = v_next_status,
+            next_status_change_at = v_next_at
+        WHERE id = v_entry.id;
+      ELSIF v_entry.status_before_timed IS NOT NULL THEN
+        -- A timed entry ended and nothing else covers the rest of the day
+        PERFORM set_config('app.status_source', 'expired', true);
+
+        UPDATE public.employees
+        SET status = v_entry.status_before_timed,
+            status_before_timed = NULL,
+            next_status = v_next_status,
+            next_status_change_at = v_next_at
+        WHERE id = v_entry.id;
+      ELSIF v_entry.previous_next_status IS DISTINCT FROM v_next_status
+        OR v_entry.previous_next_at IS DISTINCT FROM v_next_at
+      THEN
+        UPDATE public.employees
+        SET next_status = v_next_status,
+            next_status_change_at = v_next_at
+        WHERE id = v_entry.id;
+      END IF;
+    END LOOP;
+
+    -- Reset to the default status once a day when the reset time has passed.
+    -- A reset in the afternoon or evening prepares the next day, so anyone with a
+    -- scheduled or recurring entry tomorrow gets that status instead of the default.
+    -- A morning reset leaves people with an entry for today alone.
+    IF v_tenant.default_status IS NOT NULL
+      AND v_tenant.reset_time IS NOT NULL
+      AND v_tenant.local_time >= v_tenant.reset_time
+      AND v_tenant.last_reset_date IS DISTINCT FROM v_tenant.today
+    THEN
+      v_reset_date := CASE
+        WHEN v_tenant.reset_time >= TIME '12:00' THEN v_tenant.today + 1
+        ELSE v_tenant.today
+      END;
+
+      FOR v_entry IN
+        SELECT e.id, resolved.status_text, resolved.source
+        FROM public.employees e
+        LEFT JOIN LATERAL public.resolve_employee_status(e.id, v_reset_date) resolved ON true
+        WHERE e.tenant_id = v_tenant.id
+      LOOP
+        IF v_entry.source IS NULL THEN
+          PERFORM set_config('app.status_source', 'reset', true);
+
+          UPDATE public.employees
+          SET status = v_tenant.default_status,
+              status_before_timed = NULL
+          WHERE id = v_entry.id;
+        ELSIF v_reset_date > v_tenant.today THEN
+          -- Timed entries tomorrow still take over when they start
+          v_next_time := public.next_status_change_time(v_entry.id, v_reset_date);
+          v_next_status := NULL;
+          IF v_next_time IS NOT NULL THEN
+            SELECT next.status_text INTO v_next_status
+            FROM public.resolve_employee_status(v_entry.id, v_reset_date, v_next_time) next;
+            v_next_status := COALESCE(v_next_status, v_entry.status_text);
+          END IF;
+
+          PERFORM set_config('app.status_source', v_entry.source, true);
+
+          UPDATE public.employees
+          SET status = v_entry.status_text,
+              status_before_timed = NULL,
+              already_applied = true,
+              applied_date = v_reset_date,
+              next_status = v_next_status,
+              next_status_change_at = (v_reset_date + v_next_time) AT TIME ZONE v_tenant.time_zone
+          WHERE id = v_entry.id;
+        END IF;
+      END LOOP;
+
+      UPDATE public.profiles
+      SET last_reset_date = v_tenant.today
+      WHERE id = v_tenant.id;
+    END IF;
+
+    PERFORM set_config('app.status_source', '', true);
+
+    -- Delete only scheduled statuses that ended before the tenant's today
+    DELETE FROM public.scheduled_statuses
+    WHERE end_date < v_tenant.today
+      AND tenant_id = v_tenant.id;
+  END LOOP;
+END;
+$$;
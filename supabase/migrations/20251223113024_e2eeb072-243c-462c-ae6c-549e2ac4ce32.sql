@@ -0,0 +1,51 @@
+-- The bulk weekly pattern only replaces plain weekly rules, the kind it writes
+-- itself. Monthly, every few weeks, dated and timed rules are kept and stay
+-- ahead of the new pattern, so they still win on the days they apply.
+CREATE OR REPLACE FUNCTION public.bulk_set_recurring_statuses(p_employee_ids UUID[], p_pattern JSONB)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.assert_bulk_admin(p_employee_ids);
+
+  IF jsonb_typeof(p_pattern) IS DISTINCT FROM 'object' OR EXISTS (
+    SELECT 1 FROM jsonb_each_text(p_pattern) AS days(day, status_text)
+    WHERE days.day !~ '^[0-6]$' OR trim(COALESCE(days.status_text, '')) = ''
+  ) THEN
+    RAISE EXCEPTION 'Invalid recurring pattern' USING ERRCODE = '22023';
+  END IF;
+
+  DELETE FROM public.recurring_statuses
+  WHERE employee_id = ANY(p_employee_ids)
+    AND frequency = 'weekly'
+    AND interval_weeks = 1
+    AND week_of_month IS NULL
+    AND starts_on IS NULL
+    AND ends_on IS NULL
+    AND start_time IS NULL
+    AND end_time IS NULL;
+
+  INSERT INTO public.recurring_statuses (employee_id, tenant_id, day_of_week, status_text, sort_order)
+  SELECT
+    e.id,
+    e.tenant_id,
+    days.day::INTEGER,
+    trim(days.status_text),
+    COALESCE(kept.max_sort_order + 1, 0) + (days.day::INTEGER + 6) % 7
+  FROM public.employees e
+  CROSS JOIN jsonb_each_text(p_pattern) AS days(day, status_text)
+  LEFT JOIN LATERAL (
+    SELECT max(r.sort_order) AS max_sort_order
+    FROM public.recurring_statuses r
+    WHERE r.employee_id = e.id
+  ) kept ON true
+  WHERE e.id = ANY(p_employee_ids);
+
+  UPDATE public.employees
+  SET recurring_enabled = true, already_applied = false, applied_date = NULL
+  WHERE id = ANY(p_employee_ids);
+
+  PERFORM public.apply_daily_statuses();
+END;
+$$;
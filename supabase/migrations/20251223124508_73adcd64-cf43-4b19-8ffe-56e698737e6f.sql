@@ -0,0 +1,29 @@
+-- Deleting an account removes everything of the owner's tenant in one go.
+-- Only the owner may do it; members and admins leave through their owner.
+CREATE OR REPLACE FUNCTION public.delete_tenant()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant_id UUID := public.current_tenant_id();
+BEGIN
+  IF v_tenant_id IS NULL OR public.current_tenant_role() IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the owner can delete the account' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.status_history WHERE tenant_id = v_tenant_id;
+  DELETE FROM public.scheduled_statuses WHERE tenant_id = v_tenant_id;
+  DELETE FROM public.recurring_statuses WHERE tenant_id = v_tenant_id;
+  DELETE FROM public.calendar_feed_tokens WHERE tenant_id = v_tenant_id;
+  DELETE FROM public.display_tokens WHERE tenant_id = v_tenant_id;
+  DELETE FROM public.tenant_members WHERE tenant_id = v_tenant_id;
+  DELETE FROM public.employees WHERE tenant_id = v_tenant_id;
+  DELETE FROM public.departments WHERE tenant_id = v_tenant_id;
+  DELETE FROM public.holidays WHERE tenant_id = v_tenant_id;
+  DELETE FROM public.daily_messages WHERE tenant_id = v_tenant_id;
+  DELETE FROM public.predefined_statuses WHERE tenant_id = v_tenant_id;
+  DELETE FROM public.profiles WHERE id = v_tenant_id;
+END;
+$$;
@@ -79,11 +79,20 @@ export default {
   				to: {
   					height: '0'
   				}
+  			},
+  			ticker: {
+  				from: {
+  					transform: 'translateX(100vw)'
+  				},
+  				to: {
+  					transform: 'translateX(-100%)'
+  				}
   			}
   		},
   		animation: {
   			'accordion-down': 'accordion-down 0.2s ease-out',
-  			'accordion-up': 'accordion-up 0.2s ease-out'
+  			'accordion-up': 'accordion-up 0.2s ease-out',
+  			ticker: 'ticker 30s linear infinite'
   		},
   		boxShadow: {
   			'2xs': 'var(--shadow-2xs)',